@@ -0,0 +1,105 @@
+/**
+ * Benchmark the streaming XML extractor against the legacy xml2js parser.
+ *
+ * Parses every XML file in a directory with both parsers, reports throughput,
+ * and checks that both produce identical grants and metadata.
+ *
+ * Usage:
+ *   npm run benchmark-xml-parser -- <xml-dir> [--limit=1000] [--skip-990]
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { processXmlFile, type BatchResult, type XmlParserKind } from './lib/irs-xml';
+
+interface RunResult {
+  parser: XmlParserKind;
+  seconds: number;
+  results: BatchResult[];
+}
+
+async function runParser(parser: XmlParserKind, files: string[], process990: boolean): Promise<RunResult> {
+  const start = process.hrtime.bigint();
+  const results: BatchResult[] = [];
+
+  // Sequential on purpose: measures parser cost, not event-loop scheduling
+  for (const file of files) {
+    results.push(await processXmlFile(file, 0, { process990, parser }));
+  }
+
+  const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+  return { parser, seconds, results };
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    allowPositionals: true,
+    options: {
+      'limit': { type: 'string' },
+      'skip-990': { type: 'boolean' },
+    },
+  });
+
+  const xmlDir = positionals[0];
+  if (!xmlDir || !fs.existsSync(xmlDir)) {
+    console.error('❌ Usage: npm run benchmark-xml-parser -- <xml-dir> [--limit=1000] [--skip-990]');
+    process.exit(1);
+  }
+
+  let files = fs.readdirSync(xmlDir)
+    .filter(file => file.endsWith('.xml'))
+    .map(file => path.join(xmlDir, file));
+  if (values.limit) {
+    files = files.slice(0, parseInt(values.limit, 10));
+  }
+
+  const process990 = !values['skip-990'];
+  const totalBytes = files.reduce((sum, file) => sum + fs.statSync(file).size, 0);
+  const totalMB = totalBytes / 1024 / 1024;
+
+  console.log(`📊 Benchmarking ${files.length} files (${totalMB.toFixed(1)}MB) from ${xmlDir}`);
+  console.log(`   Form 990: ${process990 ? 'included' : 'skipped'}\n`);
+
+  // Warm up the filesystem cache so the first parser isn't penalized
+  for (const file of files) fs.readFileSync(file);
+
+  const legacy = await runParser('xml2js', files, process990);
+  const streaming = await runParser('stream', files, process990);
+
+  console.log('Parser     Seconds   Files/s     MB/s');
+  for (const run of [legacy, streaming]) {
+    console.log(
+      `${run.parser.padEnd(8)} ${run.seconds.toFixed(2).padStart(9)} ${(files.length / run.seconds).toFixed(0).padStart(9)} ${(totalMB / run.seconds).toFixed(1).padStart(8)}`
+    );
+  }
+  console.log(`\n⚡ Speedup: ${(legacy.seconds / streaming.seconds).toFixed(2)}x`);
+
+  // Compare outputs file by file
+  const mismatches: string[] = [];
+  // The parsers word errors differently, and xml2js rejects some broken files before parsing,
+  // so a failure only has to match the other parser extracting nothing
+  const comparable = (result: BatchResult) => !result || result.type === 'failed' ? 'nothing' : JSON.stringify(result);
+  files.forEach((file, i) => {
+    if (comparable(legacy.results[i]) !== comparable(streaming.results[i])) {
+      mismatches.push(path.basename(file));
+    }
+  });
+
+  const found = streaming.results.filter(result => result && result.type !== 'empty' && result.type !== 'failed').length;
+  console.log(`\n🔍 ${found} filings extracted; ${files.length - mismatches.length}/${files.length} files identical across parsers`);
+  if (mismatches.length > 0) {
+    console.log(`❌ ${mismatches.length} files differ:`);
+    for (const file of mismatches.slice(0, 20)) {
+      console.log(`   ${file}`);
+    }
+    process.exit(1);
+  }
+  console.log('✅ Outputs match');
+}
+
+main().catch(error => {
+  console.error('\n❌ Fatal error during benchmark:', error);
+  process.exit(1);
+});
@@ -11,125 +11,183 @@
  * Usage:
  * - Default (HLF): npm run build-complete-dataset
  * - Custom EIN: npm run build-complete-dataset -- --ein=123456789
+ * - Quick test: npm run build-complete-dataset -- --years=2024 --months=5 --test-limit=200
+ * - From a file: npm run build-complete-dataset -- --config=build.yaml
+ * - All options: npm run build-complete-dataset -- --help
  *
- * The custom EIN mode uses only IRS 990-PF data (no Excel file needed).
- * It builds a network with the specified foundation as the central node.
+ * With custom EINs the network is built around those foundations (up to ten), from
+ * their IRS 990-PF data unless --master-list gives the first one's own grants list
+ * (see lib/network-builder.ts).
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import { createWriteStream } from 'fs';
 import { finished } from 'stream/promises';
-import { fileURLToPath } from 'url';
 import { execFile } from 'child_process';
 import axios from 'axios';
-import { parseStringPromise } from 'xml2js';
-import xlsx from 'xlsx';
 import yauzl from 'yauzl';
 import { pipeline } from 'stream';
 import { promisify } from 'util';
 import pLimit from 'p-limit';
+import { loadBuildConfig, USAGE } from './lib/build-config';
+import { findLocalMonthSource, irsMonthlyZipUrl, localMirrorCacheTag, type LocalMonthSource } from './lib/local-mirror';
+import { PARSER_VERSION, processXmlFile, type BatchResult, type FoundationFiling, type Grant, type OrganizationFiling, type Person } from './lib/irs-xml';
+import { buildInterlocks, type Interlock } from './lib/interlocks';
+import { dedupeFilings, type FilingSummary } from './lib/filing-dedupe';
+import {
+  inMemoryDatasetView,
+  recipientKey,
+  type CompleteDataset,
+  type DatasetView,
+  type Organization,
+  type ReceivedGrant
+} from './lib/complete-dataset';
+import { openDatasetDb, writeDatasetDb } from './lib/dataset-db';
+import {
+  createRecipientMatcher,
+  type MatchOptions,
+  type MatchResult,
+  type RecipientProfile,
+  type ScoredCandidate
+} from './lib/entity-resolution';
+import { loadGranteeOverrides, withGranteeOverrides, type GranteeOverrides } from './lib/grantee-overrides';
+import { loadBmfRegistry, type BmfRegistry } from './lib/eo-bmf';
+import { expandNetwork, type ExpansionOptions } from './lib/network-expansion';
+import { buildNetwork, type BuiltNetwork, type CentralFunder, type InternalGrant } from './lib/network-builder';
+import { buildUnmatchedGranteeReport, printUnmatchedGranteeSummary } from './lib/unmatched-grantees';
+import { buildGrantsListReport, loadGrantsListMapping, printGrantsListSummary, readGrantsList } from './lib/grants-list';
+import type { GrantsListMapping } from '../src/services/grantsList';
+import type { NetworkDataFile } from '../src/services/networkData';
+import { NETWORK_SCHEMA_VERSION, validateNetworkData } from '../src/services/networkSchema';
+import { loadExemptStatus, type ExemptStatusList } from './lib/exempt-status';
+import { addSchemaCheck, createSchemaSummary, mergeSchemaSummaries, type SchemaSummary } from './lib/irs-schema';
+import {
+  buildQuarantineReport,
+  loadQuarantineReport,
+  printQuarantineSummary,
+  type FilingIssue,
+  type QuarantineEntry
+} from './lib/quarantine';
+import { createXmlWorkerPool } from './lib/xml-worker-pool';
+import {
+  adoptLegacyCache,
+  checkCachedMonth,
+  checkMonth,
+  describeLocalSource,
+  isSameArchive,
+  loadManifest,
+  monthKey,
+  saveManifest,
+  sha256File,
+  type ArchiveInfo,
+  type ManifestEntry,
+  type RunRequirements
+} from './lib/build-manifest';
 
 const pipe = promisify(pipeline);
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
 
 // --- CONFIGURATION ---
-// PRODUCTION DEFAULTS (restore these for full dataset):
-const YEARS = [2022, 2023, 2024, 2025]; // Years to process
-const TEST_MODE = false; // Set to true to process only a small number of filings
-const TEST_LIMIT = 200;
-const PROCESS_990 = true; // Set to true to also process Form 990 (public charities)
-const TEST_SINGLE_MONTH = null; // Set to month number (1-12) for testing ONE month, or null for all months
-const CONCURRENCY_LIMIT = 20; // Number of concurrent XML file parsers
-const BATCH_SIZE = 2000; // Process files in batches to control memory usage
-
-// FOR TESTING (uncomment these):
-// const YEARS = [2023];
-// const TEST_SINGLE_MONTH = 5;
-
-// --- PATHS ---
-const DATA_DIR = path.join(__dirname, '..', 'data', 'irs_bulk');
-const CACHE_DIR = path.join(__dirname, '..', '.cache', 'monthly');
-const OUTPUT_PATH = path.join(__dirname, '..', 'data', 'complete-grants-dataset.json');
-const HLF_NETWORK_OUTPUT_PATH = path.join(__dirname, '..', 'public', 'grants-network-data.json');
-const HLF_MASTER_EXCEL_PATH = path.join(__dirname, '..', 'public', 'master_grants_list.xlsx');
-const XML_EXTRACT_PATH = path.join(DATA_DIR, 'xml');
-
-const HLF_EIN = '352338463';
-
-// Parse command-line arguments
-const args = process.argv.slice(2);
-const customEINArg = args.find(arg => arg.startsWith('--ein='));
-const CUSTOM_EIN = customEINArg ? customEINArg.split('=')[1] : null;
-
-// Helper function to normalize EINs (remove dashes, trim whitespace)
-function normalizeEIN(ein: string | undefined | null): string {
-  if (!ein) return '';
-  return ein.replace(/[^0-9]/g, '').trim();
+// Defaults, the --config file format and all flags are defined in lib/build-config.ts
+let config: ReturnType<typeof loadBuildConfig>;
+try {
+  config = loadBuildConfig(process.argv.slice(2));
+} catch (error: any) {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
 }
-
-interface Grant {
-  recipientEIN: string;
-  recipientName: string;
-  amount: number;
-  year: number;
-  recipientCity?: string;
-  recipientState?: string;
-  recipientZip?: string;
+if (config.help) {
+  console.log(USAGE);
+  process.exit(0);
 }
 
-interface Foundation {
-  ein: string;
-  name: string;
-  grantsGiven: Grant[];
-  metadata?: {
-    address?: string;
-    city?: string;
-    state?: string;
-    assets?: number;
-    revenue?: number;
-  };
-}
+const YEARS = config.years; // Years to process
+const TEST_MODE = config.testMode; // Process only a small number of filings per month
+const TEST_LIMIT = config.testLimit;
+const PROCESS_990 = config.process990; // Also process Form 990 (public charities)
+const MONTHS = config.months; // Months (1-12) to process, or null for all months
+const CONCURRENCY_LIMIT = config.concurrency; // Number of concurrent XML file parsers without workers
+const WORKERS = config.workers; // Parser worker threads (0 = parse on the main thread)
+const WORKER_MEMORY_MB = config.workerMemoryMb; // Heap limit per worker thread
+const BATCH_SIZE = config.batchSize; // Process files in batches to control memory usage
+const XML_PARSER = config.xmlParser; // 'stream' (SAX, default) or 'xml2js' (legacy)
+const FORCE_REPROCESS = config.forceReprocess; // Ignore the build manifest and reprocess every month
+const OFFLINE = config.offline; // Never contact the IRS: cached months load as they are, others are skipped
+const SOURCE = config.source; // 'irs' downloads monthly ZIPs, 'local' reads LOCAL_DIR
+const LOCAL_DIR = config.localDir;
 
-interface Organization {
-  ein: string;
-  name: string;
-  grantsReceived: Array<{
-    funderEIN: string;
-    funderName: string;
-    amount: number;
-    year: number;
-  }>;
-  metadata?: {
-    address?: string;
-    city?: string;
-    state?: string;
-  };
+// --- PATHS ---
+const DATA_DIR = config.dataDir;
+const CACHE_DIR = config.cacheDir;
+const OUTPUT_PATH = config.outputPath;
+const DATASET_FORMAT = config.datasetFormat; // 'json', 'sqlite' or 'both'
+const DATABASE_PATH = config.databasePath;
+const NETWORK_ONLY = config.networkOnly; // Build the network from DATABASE_PATH, skipping IRS processing
+const SUPERSEDED_LOG_PATH = path.join(path.dirname(OUTPUT_PATH), 'superseded-filings.json');
+const SCHEMA_REPORT_PATH = path.join(path.dirname(OUTPUT_PATH), 'schema-report.json');
+const QUARANTINE_REPORT_PATH = path.join(path.dirname(OUTPUT_PATH), 'quarantine-report.json');
+const RECIPIENT_MATCHES_PATH = path.join(path.dirname(OUTPUT_PATH), 'recipient-matches.json');
+const GRANTS_LIST_REPORT_PATH = path.join(path.dirname(OUTPUT_PATH), 'grants-list-report.json');
+const UNMATCHED_GRANTEES_PATH = path.join(path.dirname(OUTPUT_PATH), 'unmatched-grantees.json');
+const BMF_DIR = config.bmfDir; // IRS EO BMF extract, or null to build without it
+const REVOCATION_LIST_PATH = config.revocationListPath; // IRS auto-revocation list, or null
+const PUB78_PATH = config.pub78Path; // IRS Publication 78 data, or null
+const EXPANSION: ExpansionOptions = {
+  depth: config.networkDepth, // 2 adds the organizations co-funders fund (and with includeCofunderFunders, their funders)
+  includeCofunderFunders: config.includeCofunderFunders,
+  minOverlap: config.expansionMinOverlap,
+  minAmount: config.expansionMinAmount
+};
+const HLF_NETWORK_OUTPUT_PATH = config.networkOutputPath;
+// Local mirrors get their own cache so fixture runs never mix with IRS downloads
+const MONTH_CACHE_DIR = SOURCE === 'local' ? path.join(CACHE_DIR, localMirrorCacheTag(LOCAL_DIR!)) : CACHE_DIR;
+
+// A cached month is reused only if it was built by this parser with at least these settings
+const RUN_REQUIREMENTS: RunRequirements = {
+  parserVersion: PARSER_VERSION,
+  process990: PROCESS_990,
+  testLimit: TEST_MODE ? TEST_LIMIT : null
+};
+
+const HLF_EIN = '352338463';
+const HLF_NAME = 'Hidden Leaf Foundation';
+
+// The funders the network is built around, and the first one's own grants list if it has one (see lib/network-builder.ts)
+const CENTRAL_EINS = config.ein ?? [HLF_EIN];
+// HLF keeps its own name: IRS data gives it in upper case, and a partial build may not have its return at all
+const CENTRAL_NAME = config.centralName ?? (config.ein ? null : HLF_NAME);
+const MASTER_LIST_PATH = config.masterListPath;
+
+// Entity resolution for recipients without an EIN (see lib/entity-resolution.ts)
+const MATCH_OPTIONS: MatchOptions = { threshold: config.matchThreshold, margin: config.matchMargin };
+
+// Manual aliases, exclusions and EIN merges that win over entity resolution (see lib/grantee-overrides.ts)
+let granteeOverrides: GranteeOverrides;
+try {
+  granteeOverrides = loadGranteeOverrides(config.overridesPath);
+} catch (error: any) {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
 }
 
-interface CompleteDataset {
-  foundations: Record<string, Foundation>;
-  organizations: Record<string, Organization>;
-  metadata: {
-    foundationsProcessed: number;
-    totalGrants: number;
-    generatedAt: string;
-  };
+// Sheets, columns and skip rules for the grants list (see lib/grants-list.ts)
+let grantsListMapping: GrantsListMapping | null = null;
+if (MASTER_LIST_PATH) {
+  try {
+    grantsListMapping = loadGrantsListMapping(config.grantsListMappingPath);
+  } catch (error: any) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
 }
 
 /**
- * Ensure data directory exists
+ * Ensure cache directory exists. DATA_DIR is left alone: each month cleans up
+ * its own scratch subdirectory.
  */
-function setupDirectory(isMonthly: boolean = true) {
-  if (isMonthly) {
-    if (fs.existsSync(DATA_DIR)) {
-      fs.rmSync(DATA_DIR, { recursive: true, force: true });
-    }
-    fs.mkdirSync(XML_EXTRACT_PATH, { recursive: true });
-  }
-  if (!fs.existsSync(CACHE_DIR)) {
-    fs.mkdirSync(CACHE_DIR, { recursive: true });
+function setupDirectory() {
+  if (!fs.existsSync(MONTH_CACHE_DIR)) {
+    fs.mkdirSync(MONTH_CACHE_DIR, { recursive: true });
   }
 }
 
@@ -205,6 +263,21 @@ async function downloadFile(url: string, dest: string) {
   }
 }
 
+/**
+ * Fetch an archive's size and modification headers without downloading it
+ */
+async function describeRemoteArchive(url: string): Promise<ArchiveInfo> {
+  const response = await axios.head(url, { timeout: 60000 });
+  const size = parseInt(response.headers['content-length'] || '', 10);
+  return {
+    source: url,
+    size: Number.isNaN(size) ? null : size,
+    lastModified: response.headers['last-modified'] || null,
+    etag: response.headers['etag'] || null,
+    checksum: null
+  };
+}
+
 /**
  * Extract a ZIP file using system unzip command (handles all compression methods)
  */
@@ -242,177 +315,67 @@ async function extractZip(zipPath: string, dest: string) {
 }
 
 /**
- * Parse a single XML file and extract grants if it is a 990-PF
+ * Find the directory holding the XML files of an extracted monthly archive.
+ * IRS archives are inconsistent: files may sit at the top level, in a folder named
+ * after the archive, or in some other subdirectory.
  */
-async function processXmlFile(filePath: string, year: number): Promise<{ funderEIN: string; funderName: string; grants: Grant[]; metadata?: any } | null> {
-  try {
-    const xmlContent = fs.readFileSync(filePath, 'utf-8');
+function locateXmlDir(extractedSubdir: string): string {
+  // Check what actually got extracted - try nested dir first, then extractedSubdir
+  const nestedDir = path.join(extractedSubdir, path.basename(extractedSubdir));
 
-    // Quick check for 990-PF to avoid parsing unnecessary files
-    if (!xmlContent.includes('<IRS990PF')) {
-      return null;
-    }
+  if (fs.existsSync(nestedDir)) {
+    return nestedDir;
+  }
+  if (!fs.existsSync(extractedSubdir)) {
+    throw new Error(`Extraction failed - directory not found: ${extractedSubdir}`);
+  }
 
-    const data = await parseStringPromise(xmlContent);
-
-    const root = data.Return?.ReturnData?.[0];
-    const header = data.Return?.ReturnHeader?.[0];
-    if (!root || !header || !root.IRS990PF) return null;
-
-    const rawFunderEIN = header.Filer?.[0]?.EIN?.[0];
-    const funderEIN = normalizeEIN(rawFunderEIN);
-    const funderName = header.Filer?.[0]?.BusinessName?.[0]?.BusinessNameLine1Txt?.[0] || `Foundation ${funderEIN}`;
-    // Use the tax year from XML - this is when the grant actually occurred
-    const taxYear = parseInt(header.TaxYr?.[0] || year.toString(), 10);
-
-    // Extract metadata
-    const usAddress = header.Filer?.[0]?.USAddress?.[0];
-    const balanceSheet = root.IRS990PF?.[0]?.Form990PFBalanceSheetsGrp?.[0];
-    const revenueExpenses = root.IRS990PF?.[0]?.AnalysisOfRevenueAndExpenses?.[0];
-
-    const metadata = {
-      address: usAddress?.AddressLine1Txt?.[0],
-      city: usAddress?.CityNm?.[0],
-      state: usAddress?.StateAbbreviationCd?.[0],
-      assets: parseFloat(balanceSheet?.TotalAssetsEOYAmt?.[0] || balanceSheet?.TotalAssetsBOYAmt?.[0] || '0'),
-      revenue: parseFloat(revenueExpenses?.TotalRevAndExpnssAmt?.[0] || '0')
-    };
-
-    const grants: Grant[] = [];
-
-    const irs990pf = root.IRS990PF?.[0];
-    const supplementaryInfo = irs990pf?.SupplementaryInformationGrp?.[0];
-
-    const grantSections = supplementaryInfo?.GrantOrContributionPdDurYrGrp ||
-                          irs990pf?.GrantOrContributionPdDurYrGrp ||
-                          irs990pf?.GrantOrContribPaidDuringYear ||
-                          [];
-
-    for (const recipient of grantSections) {
-      const recipientName = recipient.RecipientBusinessName?.[0]?.BusinessNameLine1Txt?.[0] ||
-                            recipient.RecipientPersonNm?.[0] ||
-                            recipient.RecipientOrganizationName?.[0] || '';
-      const recipientEIN = recipient.RecipientEIN?.[0] || '';
-      const amount = parseFloat(recipient.Amt?.[0] || recipient.Amount?.[0] || recipient.CashGrantAmt?.[0] || '0');
-
-      // Extract address information
-      const usAddress = recipient.RecipientUSAddress?.[0];
-      const recipientCity = usAddress?.CityNm?.[0] || '';
-      const recipientState = usAddress?.StateAbbreviationCd?.[0] || '';
-      const recipientZip = usAddress?.ZIPCd?.[0] || '';
-
-      if (recipientName && amount > 0) {
-        grants.push({
-          recipientEIN,
-          recipientName,
-          amount,
-          year: taxYear,
-          recipientCity,
-          recipientState,
-          recipientZip
-        });
-      }
-    }
+  // Check if XML files are directly in extractedSubdir
+  const filesInExtracted = fs.readdirSync(extractedSubdir);
+  const xmlFilesInExtracted = filesInExtracted.filter(f => f.endsWith('.xml'));
 
-    return { funderEIN, funderName, grants, metadata };
-  } catch (error: any) {
-    console.warn(`  ⚠️  Skipping file ${path.basename(filePath)} due to parsing error: ${error.message}`);
-    return null;
+  if (xmlFilesInExtracted.length > 0) {
+    console.log(`   ℹ️  Files extracted directly to ${path.basename(extractedSubdir)}`);
+    return extractedSubdir;
   }
-}
-
-/**
- * Parse Form 990 XML file for organization data
- * Returns organization metadata and grants from Schedule I (if present)
- */
-async function parseXML990File(filePath: string, year: number): Promise<{ ein: string; name: string; metadata: any; grants?: Grant[] } | null> {
-  try {
-    const xmlContent = fs.readFileSync(filePath, 'utf-8');
 
-    // Quick check for 990 to avoid parsing 990-PF files
-    if (!xmlContent.includes('<IRS990') || xmlContent.includes('<IRS990PF')) {
-      return null;
-    }
+  // Check subdirectories
+  const subdirs = filesInExtracted.filter(f => {
+    const fullPath = path.join(extractedSubdir, f);
+    return fs.statSync(fullPath).isDirectory();
+  });
 
-    const data = await parseStringPromise(xmlContent);
-
-    const root = data.Return?.ReturnData?.[0];
-    const header = data.Return?.ReturnHeader?.[0];
-    if (!root || !header || !root.IRS990) return null;
-
-    const ein = header.Filer?.[0]?.EIN?.[0];
-    const name = header.Filer?.[0]?.BusinessName?.[0]?.BusinessNameLine1Txt?.[0] ||
-                 header.Filer?.[0]?.BusinessName?.[0]?.BusinessNameLine1?.[0] ||
-                 `Organization ${ein}`;
-
-    // Extract metadata
-    const usAddress = header.Filer?.[0]?.USAddress?.[0] || root.IRS990?.[0]?.PrincipalOfficeUSAddress?.[0];
-    const irs990 = root.IRS990?.[0];
-
-    const metadata = {
-      address: usAddress?.AddressLine1Txt?.[0] || usAddress?.AddressLine1?.[0],
-      city: usAddress?.CityNm?.[0] || usAddress?.City?.[0],
-      state: usAddress?.StateAbbreviationCd?.[0] || usAddress?.State?.[0],
-      assets: parseFloat(irs990?.TotalAssetsEOYAmt?.[0] || irs990?.Form990PartVIISectionAGrp?.[0]?.TotalAssetsEOYAmt?.[0] || '0'),
-      revenue: parseFloat(irs990?.CYTotalRevenueAmt?.[0] || irs990?.TotalRevenueCurrentYearAmt?.[0] || '0')
-    };
-
-    // Parse Schedule I grants (if present)
-    const grants: Grant[] = [];
-    const scheduleI = root.IRS990ScheduleI?.[0];
-    const recipientTables = scheduleI?.RecipientTable || [];
-
-    // Debug logging for EIN 113422729
-    if (normalizeEIN(ein) === '113422729') {
-      console.log(`🔍 DEBUG: Found Brooklyn Community Foundation (EIN: ${ein})`);
-      console.log(`   Has IRS990ScheduleI: ${!!scheduleI}`);
-      console.log(`   RecipientTable count: ${recipientTables.length}`);
-      if (scheduleI) {
-        console.log(`   Schedule I keys:`, Object.keys(scheduleI));
-      }
-    }
+  if (subdirs.length === 0) {
+    throw new Error(`Extraction failed - no XML files or subdirectories found in ${extractedSubdir}`);
+  }
 
-    for (const recipient of recipientTables) {
-      const recipientName = recipient.RecipientBusinessName?.[0]?.BusinessNameLine1Txt?.[0] ||
-                            recipient.RecipientPersonNm?.[0] || '';
-      const recipientEIN = normalizeEIN(recipient.RecipientEIN?.[0]);
-      const amount = parseFloat(recipient.CashGrantAmt?.[0] || '0');
-
-      // Extract address information
-      const recAddress = recipient.USAddress?.[0] || recipient.ForeignAddress?.[0];
-      const recipientCity = recAddress?.CityNm?.[0] || '';
-      const recipientState = recAddress?.StateAbbreviationCd?.[0] || '';
-      const recipientZip = recAddress?.ZIPCd?.[0] || '';
-
-      if (recipientName && amount > 0) {
-        grants.push({
-          recipientEIN,
-          recipientName,
-          amount,
-          year, // Use the year parameter (tax year)
-          recipientCity,
-          recipientState,
-          recipientZip
-        });
-      }
-    }
+  // Use the first subdirectory that contains XML files
+  const subdirWithXml = subdirs.find(subdir => {
+    const subdirPath = path.join(extractedSubdir, subdir);
+    const files = fs.readdirSync(subdirPath);
+    return files.some(f => f.endsWith('.xml'));
+  });
 
-    return { ein: normalizeEIN(ein), name, metadata, grants: grants.length > 0 ? grants : undefined };
-  } catch (error: any) {
-    // Silently skip parsing errors for 990s (many format variations)
-    return null;
+  if (!subdirWithXml) {
+    throw new Error(`Extraction failed - no XML files found in ${extractedSubdir} or subdirectories`);
   }
+
+  console.log(`   ℹ️  Found XML files in subdirectory: ${subdirWithXml}`);
+  return path.join(extractedSubdir, subdirWithXml);
 }
 
 /**
- * Normalize organization name for fuzzy matching
+ * Extract a monthly ZIP into the month's scratch directory and return the XML directory
  */
-function normalizeOrgName(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/\b(inc|incorporated|llc|ltd|limited|corp|corporation|foundation|fund|trust|the|a|an)\b/g, '')
-    .replace(/[^a-z0-9]+/g, '')
-    .trim();
+async function extractMonthlyZip(zipPath: string, monthDataDir: string): Promise<string> {
+  const zipFileName = path.basename(zipPath, '.zip');
+  const monthExtractPath = path.join(monthDataDir, 'xml');
+  fs.mkdirSync(monthExtractPath, { recursive: true });
+  const extractedSubdir = path.join(monthExtractPath, zipFileName);
+
+  await extractZip(zipPath, extractedSubdir);
+
+  return locateXmlDir(extractedSubdir);
 }
 
 /**
@@ -422,21 +385,53 @@ function normalizeOrgName(name: string): string {
  * @returns A complete dataset object.
  */
 function buildBidirectionalDataset(
-  allGrantsData: Array<{ funderEIN: string; funderName: string; grants: Grant[]; metadata?: any }>
+  allGrantsData: FoundationFiling[]
 ): CompleteDataset {
   const dataset: CompleteDataset = {
     foundations: {},
     organizations: {},
+    recipientAliases: {},
     metadata: {
       foundationsProcessed: 0,
       totalGrants: 0,
+      totalCommitments: 0,
       generatedAt: new Date().toISOString()
     }
   };
 
   let totalGrants = 0;
+  let totalCommitments = 0;
+
+  // Find or create the recipient's organization entry
+  const recipientOrganization = (grant: Grant): Organization => {
+    // Grants without a recipient EIN are filed under a no_ein_ placeholder so every grant is kept
+    const recipientEIN = recipientKey(grant);
+
+    if (!dataset.organizations[recipientEIN]) {
+      dataset.organizations[recipientEIN] = {
+        ein: recipientEIN,
+        name: grant.recipientName,
+        grantsReceived: []
+      };
+    }
+    return dataset.organizations[recipientEIN];
+  };
+
+  const receivedGrant = (grant: Grant, funderEIN: string, funderName: string): ReceivedGrant => ({
+    funderEIN,
+    funderName,
+    amount: grant.amount,
+    year: grant.year,
+    fiscalYear: grant.fiscalYear,
+    taxPeriodBegin: grant.taxPeriodBegin,
+    taxPeriodEnd: grant.taxPeriodEnd,
+    purpose: grant.purpose,
+    recipientRelationship: grant.recipientRelationship,
+    recipientFoundationStatus: grant.recipientFoundationStatus,
+    ircSection: grant.ircSection
+  });
 
-  for (const { funderEIN, funderName, grants, metadata } of allGrantsData) {
+  for (const { funderEIN, funderName, grants, commitments = [], people, metadata } of allGrantsData) {
     if (!funderEIN) continue;
 
     // Merge or create foundation entry
@@ -455,40 +450,201 @@ function buildBidirectionalDataset(
     // it treats each item as a separate function argument.
     // Using .concat() is a safer way to merge large arrays.
     dataset.foundations[funderEIN].grantsGiven = dataset.foundations[funderEIN].grantsGiven.concat(grants);
+    dataset.foundations[funderEIN].people = latestPeople(dataset.foundations[funderEIN].people, people);
 
     totalGrants += grants.length;
 
     for (const grant of grants) {
-      // Use a fallback for recipient EIN to ensure every grant is processed
-      // Use same normalization as network builder for consistency
-      let recipientEIN = grant.recipientEIN;
-      if (!recipientEIN || recipientEIN === '' || recipientEIN.startsWith('unknown_')) {
-        const normalized = normalizeOrgName(grant.recipientName);
-        recipientEIN = `no_ein_${normalized}`;
-      }
+      recipientOrganization(grant).grantsReceived.push(receivedGrant(grant, funderEIN, funderName));
+    }
 
-      if (!dataset.organizations[recipientEIN]) {
-        dataset.organizations[recipientEIN] = {
-          ein: recipientEIN,
-          name: grant.recipientName,
-          grantsReceived: []
-        };
-      }
+    // Commitments are kept apart from paid grants so totals only count money that moved
+    if (commitments.length > 0) {
+      const foundation = dataset.foundations[funderEIN];
+      foundation.commitmentsMade = (foundation.commitmentsMade || []).concat(commitments);
+      totalCommitments += commitments.length;
 
-      dataset.organizations[recipientEIN].grantsReceived.push({
-        funderEIN,
-        funderName,
-        amount: grant.amount,
-        year: grant.year
-      });
+      for (const commitment of commitments) {
+        const org = recipientOrganization(commitment);
+        if (!org.commitmentsReceived) {
+          org.commitmentsReceived = [];
+        }
+        org.commitmentsReceived.push(receivedGrant(commitment, funderEIN, funderName));
+      }
     }
   }
 
   dataset.metadata.foundationsProcessed = Object.keys(dataset.foundations).length;
   dataset.metadata.totalGrants = totalGrants;
+  dataset.metadata.totalCommitments = totalCommitments;
   return dataset;
 }
 
+/**
+ * Keep the officer list from the most recent filing
+ */
+function latestPeople(current: Person[] | undefined, next: Person[] | undefined): Person[] | undefined {
+  if (!next || next.length === 0) return current;
+  if (!current || current.length === 0 || next[0].year >= current[0].year) return next;
+  return current;
+}
+
+/**
+ * What the returns say about each recipient: its own address (or the EO BMF's),
+ * else the first address filed for it, and who funded it
+ */
+function recipientProfiles(
+  dataset: CompleteDataset,
+  grantFilings: FoundationFiling[],
+  registry: BmfRegistry | null
+): Map<string, RecipientProfile> {
+  const profiles = new Map<string, RecipientProfile>();
+
+  for (const [key, org] of Object.entries(dataset.organizations)) {
+    const registered = registry?.get(key);
+    profiles.set(key, {
+      key,
+      name: org.name,
+      city: org.metadata?.city || registered?.city,
+      state: org.metadata?.state || registered?.state,
+      zip: registered?.zip,
+      funders: new Set([...org.grantsReceived, ...(org.commitmentsReceived || [])].map(g => g.funderEIN))
+    });
+  }
+
+  for (const { grants, commitments = [] } of grantFilings) {
+    for (const grant of [...grants, ...commitments]) {
+      const profile = profiles.get(recipientKey(grant));
+      if (!profile) continue;
+      profile.city ||= grant.recipientCity || undefined;
+      profile.state ||= grant.recipientState || undefined;
+      profile.zip ||= grant.recipientZip || undefined;
+    }
+  }
+
+  return profiles;
+}
+
+/**
+ * Move an organization's grants (and commitments) into another entry, deleting
+ * it and remembering where its grants went in dataset.recipientAliases
+ */
+function mergeOrganization(dataset: CompleteDataset, key: string, match: ScoredCandidate) {
+  const org = dataset.organizations[key];
+  const target = dataset.organizations[match.key];
+  if (!target) {
+    // An override or the EO BMF can name an EIN no return has mentioned yet
+    dataset.organizations[match.key] = { ...org, ein: match.key, name: match.name };
+  } else {
+    target.grantsReceived.push(...org.grantsReceived);
+    if (org.commitmentsReceived) {
+      target.commitmentsReceived = [...(target.commitmentsReceived || []), ...org.commitmentsReceived];
+    }
+    target.metadata ??= org.metadata;
+    target.people ??= org.people;
+  }
+
+  delete dataset.organizations[key];
+  dataset.recipientAliases[key] = match;
+}
+
+/**
+ * Merge duplicate EINs and no_ein_ placeholder organizations into the real EIN
+ * the grantee overrides name or entity resolution matches them to (among the
+ * organizations in the returns and, when loaded, the EO BMF registry)
+ */
+function consolidateRecipients(
+  dataset: CompleteDataset,
+  grantFilings: FoundationFiling[],
+  registry: BmfRegistry | null
+): Array<{ placeholder: string; name: string } & MatchResult> {
+  const results: Array<{ placeholder: string; name: string } & MatchResult> = [];
+
+  // Duplicate EINs first, so placeholders are matched against the merged organizations
+  for (const [key, org] of Object.entries(dataset.organizations)) {
+    if (key.startsWith('no_ein_')) continue;
+    const alias = granteeOverrides.aliasFor(key, ein => dataset.organizations[ein]?.name ?? org.name);
+    if (alias) mergeOrganization(dataset, key, alias);
+  }
+
+  const profiles = recipientProfiles(dataset, grantFilings, registry);
+  const realProfiles = [...profiles.values()].filter(p => !p.key.startsWith('no_ein_'));
+  const registryProfiles = registry ? [...registry.profiles()].filter(p => !profiles.has(p.key)) : [];
+  const matcher = createRecipientMatcher([...realProfiles, ...registryProfiles], MATCH_OPTIONS);
+
+  for (const profile of profiles.values()) {
+    if (!profile.key.startsWith('no_ein_')) continue;
+
+    const alias = granteeOverrides.aliasFor(profile.key, ein => dataset.organizations[ein]?.name ?? profile.name);
+    const result: MatchResult = alias
+      ? { status: 'matched', match: alias, candidates: [alias] }
+      : matcher.match(profile, granteeOverrides.neverMatch(profile.key));
+    if (result.candidates.length > 0) {
+      results.push({ placeholder: profile.key, name: profile.name, ...result });
+    }
+    if (result.match) {
+      mergeOrganization(dataset, profile.key, result.match);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Add EO BMF classification (and the address, when the returns give none) to
+ * every foundation and organization
+ */
+function classifyOrganizations(dataset: CompleteDataset, registry: BmfRegistry) {
+  let classified = 0;
+  for (const entity of [...Object.values(dataset.foundations), ...Object.values(dataset.organizations)]) {
+    if (!registry.get(entity.ein)) continue;
+    entity.metadata = registry.metadataFor(entity.ein, entity.metadata);
+    classified++;
+  }
+  console.log(`   Classified ${classified} foundations and organizations from the EO BMF`);
+}
+
+/**
+ * Load the EO BMF registry, if the build was given one
+ */
+async function loadRegistry(): Promise<BmfRegistry | null> {
+  if (!BMF_DIR) return null;
+
+  console.log(`\n📇 Loading EO BMF registry from ${BMF_DIR}...`);
+  const registry = await loadBmfRegistry(BMF_DIR);
+  console.log(`   ${registry.size} organizations from ${registry.files.length} files (${registry.skipped} rows without an EIN skipped)`);
+  return registry;
+}
+
+/**
+ * Load the auto-revocation list and Publication 78, if the build was given either
+ */
+async function loadExemptStatusList(): Promise<ExemptStatusList | null> {
+  if (!REVOCATION_LIST_PATH && !PUB78_PATH) return null;
+
+  console.log('\n🛂 Loading tax-exempt status...');
+  const exemptStatus = await loadExemptStatus({ revocationList: REVOCATION_LIST_PATH, pub78: PUB78_PATH });
+  if (REVOCATION_LIST_PATH) {
+    console.log(`   Auto-revocation list: ${exemptStatus.revoked} revoked, ${exemptStatus.reinstated} reinstated (${REVOCATION_LIST_PATH})`);
+  }
+  if (PUB78_PATH) {
+    console.log(`   Publication 78: ${exemptStatus.eligible} organizations eligible for deductible contributions (${PUB78_PATH})`);
+  }
+  return exemptStatus;
+}
+
+/**
+ * Add revocation and Publication 78 status to every foundation and organization
+ */
+function flagExemptStatus(dataset: CompleteDataset, exemptStatus: ExemptStatusList) {
+  let revoked = 0;
+  for (const entity of [...Object.values(dataset.foundations), ...Object.values(dataset.organizations)]) {
+    entity.metadata = exemptStatus.metadataFor(entity.ein, entity.metadata);
+    if (entity.metadata?.exemptStatus === 'revoked') revoked++;
+  }
+  console.log(`   ${revoked} foundations and organizations have had their exemption revoked`);
+}
+
 /**
  * Writes a large CompleteDataset object to a JSON file using a stream to avoid memory issues.
  * This avoids the 'RangeError: Invalid string length' by not calling JSON.stringify() on the entire object at once.
@@ -540,493 +696,226 @@ async function streamDatasetToFile(dataset: CompleteDataset, filePath: string):
 }
 
 /**
- * Load HLF grants from Excel master file
+ * Load the central funder's grants from its grants list, read with the grants
+ * list mapping, and write the report of rows that were skipped
  */
-function loadHLFGrantsFromExcel(): Array<{ organization: string; amount: number; year: number }> {
-  console.log(`📊 Reading HLF grants from ${HLF_MASTER_EXCEL_PATH}...`);
-
-  const workbook = xlsx.readFile(HLF_MASTER_EXCEL_PATH);
-  const allGrants: Array<{ organization: string; amount: number; year: number }> = [];
-
-  // Map sheet names to years
-  const sheetYearMap: Record<string, number> = {
-    '2020': 2020,
-    '2021': 2021,
-    '2022': 2022,
-    '2023': 2023,
-    '2024': 2024,
-    '2025 DRAFT': 2025
-  };
-
-  for (const [sheetName, year] of Object.entries(sheetYearMap)) {
-    if (!workbook.SheetNames.includes(sheetName)) {
-      console.log(`   ⚠️  Sheet "${sheetName}" not found, skipping...`);
-      continue;
-    }
-
-    const sheet = workbook.Sheets[sheetName];
-    const data: any[] = xlsx.utils.sheet_to_json(sheet);
-
-    const grants = data
-      .filter((row: any) => {
-        const org = row.Organization || '';
-        const amount = row[`${year} Amount`] || row['2025 Amount'] || ''; // Handle different column names
-
-        if (!org || !amount) return false;
-        if (org === 'Discretionary Grants' || org === 'Mini grants for Storytelling') return false;
-
-        const parsedAmount = parseFloat((String(amount) || '0').replace(/[$,]/g, '')) || 0;
-        const isSingleName = org.trim().split(/\s+/).length === 1;
-        if (isSingleName && parsedAmount <= 10000) return false;
-
-        return true;
-      })
-      .map((row: any) => {
-        const amount = row[`${year} Amount`] || row['2025 Amount'] || '';
-        return {
-          organization: row.Organization,
-          amount: parseFloat((String(amount) || '0').replace(/[$,]/g, '')) || 0,
-          year
-        };
-      });
-
-    console.log(`   Found ${grants.length} grants from ${year} (sheet: ${sheetName})`);
-    allGrants.push(...grants);
+function loadMasterGrantsList(filePath: string): InternalGrant[] {
+  console.log(`📊 Reading grants from ${filePath}...`);
+  const result = readGrantsList(filePath, grantsListMapping!);
+
+  const sheets = new Map<string, { years: Set<number>; count: number }>();
+  for (const grant of result.grants) {
+    if (!sheets.has(grant.sheet)) sheets.set(grant.sheet, { years: new Set(), count: 0 });
+    sheets.get(grant.sheet)!.years.add(grant.year);
+    sheets.get(grant.sheet)!.count++;
+  }
+  for (const [sheet, { years, count }] of sheets) {
+    console.log(`   Found ${count} grants from ${[...years].join(', ')} (sheet: ${sheet})`);
   }
 
-  return allGrants;
+  const report = buildGrantsListReport(filePath, result);
+  fs.writeFileSync(GRANTS_LIST_REPORT_PATH, JSON.stringify(report, null, 2));
+  printGrantsListSummary(report);
+  console.log(`   Skipped rows: ${GRANTS_LIST_REPORT_PATH}`);
+
+  return result.grants.map(({ organization, amount, year, fiscalSponsor, city, state, zip }) => ({
+    organization,
+    amount,
+    year,
+    ...(fiscalSponsor ? { fiscalSponsor } : {}),
+    ...(city ? { city } : {}),
+    ...(state ? { state } : {}),
+    ...(zip ? { zip } : {})
+  }));
 }
 
 /**
- * Build HLF network from complete dataset
+ * Mark hop distances and, with depth 2, add the ring around the co-funders
  */
-async function buildHLFNetwork(dataset: CompleteDataset): Promise<{ nodes: any[]; links: any[] }> {
-  console.log('\n🕸️  Building HLF network from complete dataset...');
-
-  // Load HLF grantees from Excel master file (all years)
-  const allHLFGrantees = loadHLFGrantsFromExcel();
-
-  console.log(`   Total HLF grants loaded: ${allHLFGrantees.length}`);
-
-  // Build lookup structures - group grants by organization name
-  const hlfGrantsByOrg = new Map<string, Array<{ amount: number; year: number }>>();
-  const hlfGranteeNames = new Set<string>();
-
-  for (const grant of allHLFGrantees) {
-    const normalizedName = grant.organization.toLowerCase().trim();
-    hlfGranteeNames.add(normalizedName);
-
-    if (!hlfGrantsByOrg.has(normalizedName)) {
-      hlfGrantsByOrg.set(normalizedName, []);
-    }
-    hlfGrantsByOrg.get(normalizedName)!.push({ amount: grant.amount, year: grant.year });
-  }
+function addSecondDegree(network: BuiltNetwork, dataset: DatasetView) {
+  const added = expandNetwork(network, dataset, EXPANSION);
+  if (EXPANSION.depth < 2) return;
 
-  const nodes: any[] = [];
-  const links: any[] = [];
-  const addedNodes = new Set<string>();
-
-  // Add HLF node
-  const hlfId = 'hlf';
-  nodes.push({ id: hlfId, name: 'Hidden Leaf Foundation', type: 'funder', central: true });
-  addedNodes.add(hlfId);
-
-  // Find unmatched grantees (in CSV but not in IRS data)
-  const unmatchedGrantees: Array<{ organization: string; amount: number; year: number }> = [];
-
-  for (const hlfGrant of allHLFGrantees) {
-    const normalizedName = hlfGrant.organization.toLowerCase().trim();
-    let foundInDataset = false;
-
-    for (const org of Object.values(dataset.organizations)) {
-      if (org.name.toLowerCase().trim() === normalizedName) {
-        foundInDataset = true;
-        break;
-      }
-    }
+  const { minOverlap, minAmount } = EXPANSION;
+  console.log(`\n🔭 Second-degree expansion around ${added.cofunders} co-funders (shared by ${minOverlap}+ co-funders, $${minAmount.toLocaleString()}+):`);
+  console.log(`   Added ${added.grantees} organizations they fund${EXPANSION.includeCofunderFunders ? ` and ${added.funders} of their funders` : ''}`);
+}
 
-    if (!foundInDataset) {
-      unmatchedGrantees.push(hlfGrant);
-    }
+/**
+ * Add EO BMF classification to network nodes, including organizations only the
+ * registry knows and nodes from a dataset built without it
+ */
+function addNodeClassifications(network: Pick<NetworkDataFile, 'nodes'>, registry: BmfRegistry) {
+  let classified = 0;
+  for (const node of network.nodes) {
+    if (!registry.get(node.id)) continue;
+    node.metadata = registry.metadataFor(node.id, node.metadata);
+    classified++;
   }
+  console.log(`\n🏷️  NTEE classification: ${classified} of ${network.nodes.length} nodes in the EO BMF`);
+}
 
-  // Count unique unmatched grantees
-  const uniqueUnmatchedOrgs = new Set(unmatchedGrantees.map(g => g.organization.toLowerCase().trim()));
-  console.log(`   Found ${hlfGranteeNames.size - uniqueUnmatchedOrgs.size} unique HLF grantees in IRS dataset`);
-  console.log(`   Adding ${uniqueUnmatchedOrgs.size} unique HLF grantees not in IRS data`);
-
-  // Add unmatched grantees - group by organization
-  const unmatchedByOrg = new Map<string, Array<{ amount: number; year: number }>>();
-  for (const grantee of unmatchedGrantees) {
-    const normalizedName = grantee.organization.toLowerCase().trim();
-    if (!unmatchedByOrg.has(normalizedName)) {
-      unmatchedByOrg.set(normalizedName, []);
-    }
-    unmatchedByOrg.get(normalizedName)!.push({ amount: grantee.amount, year: grantee.year });
+/**
+ * Add revocation and Publication 78 status to network nodes. Applied to every
+ * network build, so a network rebuilt from an older dataset has today's status.
+ */
+function addNodeExemptStatus(network: Pick<NetworkDataFile, 'nodes'>, exemptStatus: ExemptStatusList) {
+  const counts: Record<string, number> = {};
+  for (const node of network.nodes) {
+    node.metadata = exemptStatus.metadataFor(node.id, node.metadata);
+    const status = node.metadata?.exemptStatus;
+    if (status) counts[status] = (counts[status] || 0) + 1;
   }
-
-  for (const [normalizedName, grants] of unmatchedByOrg.entries()) {
-    const granteeId = `hlf_grantee_${normalizedName.replace(/\s+/g, '_')}`;
-    const originalName = unmatchedGrantees.find(g => g.organization.toLowerCase().trim() === normalizedName)!.organization;
-
-    const grantsReceived = grants.map(g => ({
-      funderEIN: 'hlf',
-      funderName: 'Hidden Leaf Foundation',
-      amount: g.amount,
-      year: g.year
-    }));
-
-    nodes.push({
-      id: granteeId,
-      name: originalName,
-      type: 'grantee',
-      amount: grants.reduce((sum, g) => sum + g.amount, 0), // Total amount
-      grantsReceived
-    });
-    addedNodes.add(granteeId);
-
-    // Add a link for each grant (different years)
-    for (const grant of grants) {
-      links.push({
-        source: hlfId,
-        target: granteeId,
-        amount: grant.amount,
-        type: 'hlf-grant',
-        year: grant.year
-      });
-    }
+  console.log(`\n🛂 Tax-exempt status: ${counts.revoked || 0} revoked, ${counts.reinstated || 0} reinstated, ${counts.eligible || 0} in Pub 78, ${counts.unlisted || 0} not in Pub 78`);
+  for (const node of network.nodes.filter(n => n.metadata?.exemptStatus === 'revoked')) {
+    console.log(`   ⚠️  ${node.name} (${node.id}): exemption revoked ${node.metadata?.revocationDate ?? ''}`.trimEnd());
   }
+}
 
-  // Add matched grantees and their other funders
-  let matchedGrantees = 0;
-
-  for (const [orgEIN, org] of Object.entries(dataset.organizations)) {
-    const normalizedName = org.name.toLowerCase().trim();
-
-    if (hlfGranteeNames.has(normalizedName)) {
-      const hlfGrants = hlfGrantsByOrg.get(normalizedName) || [];
-      matchedGrantees++;
-
-      if (!addedNodes.has(orgEIN)) {
-        const totalHLFAmount = hlfGrants.reduce((sum, g) => sum + g.amount, 0);
-
-        // Merge HLF grants with IRS grants received
-        const allGrantsReceived = [
-          ...hlfGrants.map(g => ({
-            funderEIN: 'hlf',
-            funderName: 'Hidden Leaf Foundation',
-            amount: g.amount,
-            year: g.year
-          })),
-          ...(org.grantsReceived || [])
-        ];
-
-        nodes.push({
-          id: orgEIN,
-          name: org.name,
-          type: 'grantee',
-          amount: totalHLFAmount,
-          metadata: org.metadata,
-          grantsReceived: allGrantsReceived
-        });
-        addedNodes.add(orgEIN);
-      }
-
-      // Add a link for each HLF grant (different years)
-      for (const grant of hlfGrants) {
-        links.push({
-          source: hlfId,
-          target: orgEIN,
-          amount: grant.amount,
-          type: 'hlf-grant',
-          year: grant.year
-        });
-      }
-
-      // Add other funders
-      for (const grant of org.grantsReceived || []) {
-        const funderEIN = grant.funderEIN;
-
-        if (funderEIN === HLF_EIN) continue;
-
-        if (!addedNodes.has(funderEIN)) {
-          const funderData = dataset.foundations[funderEIN];
-          nodes.push({
-            id: funderEIN,
-            name: grant.funderName,
-            type: 'funder',
-            metadata: funderData?.metadata,
-            grantsGiven: funderData?.grantsGiven || []
-          });
-          addedNodes.add(funderEIN);
-        }
-
-        links.push({
-          source: funderEIN,
-          target: orgEIN,
-          amount: grant.amount,
-          type: 'other-funder',
-          year: grant.year
-        });
-      }
+/**
+ * Attach officers/directors to network nodes and link nodes that share them
+ */
+function addBoardInterlocks(network: Pick<NetworkDataFile, 'nodes'> & { interlocks?: Interlock[] }, dataset: DatasetView) {
+  for (const node of network.nodes) {
+    const people = dataset.people(node.id);
+    if (people && people.length > 0) {
+      node.people = people;
     }
   }
 
-  console.log(`   Matched ${matchedGrantees} HLF grantees in IRS dataset`);
+  network.interlocks = buildInterlocks(network.nodes);
 
-  const grantees = nodes.filter(n => n.type === 'grantee').length;
-  const funders = nodes.filter(n => n.type === 'funder').length;
-
-  console.log('\n📊 HLF Network Statistics:');
-  console.log(`   Nodes: ${nodes.length}`);
-  console.log(`   Links: ${links.length}`);
-  console.log(`   Grantees: ${grantees}`);
-  console.log(`   Other Funders: ${funders}`);
-
-  return { nodes, links };
+  const peopleInInterlocks = new Set(network.interlocks.flatMap(i => i.people.map(p => p.name)));
+  console.log(`\n👥 Board interlocks: ${network.interlocks.length} organization pairs share ${peopleInInterlocks.size} people`);
 }
 
 /**
- * Build a lookup index from organization names to EINs
+ * Check network data against the network schema and write it to file
  */
-function buildNameToEINIndex(dataset: CompleteDataset): Map<string, string[]> {
-  const nameIndex = new Map<string, string[]>();
-
-  // Index all organizations
-  for (const [ein, org] of Object.entries(dataset.organizations)) {
-    const normalizedName = normalizeOrgName(org.name);
-    if (!nameIndex.has(normalizedName)) {
-      nameIndex.set(normalizedName, []);
-    }
-    nameIndex.get(normalizedName)!.push(ein);
+async function streamHLFNetworkToFile(networkData: NetworkDataFile, filePath: string): Promise<void> {
+  // The app refuses a file that doesn't match the schema, so never write one
+  const problems = validateNetworkData(networkData);
+  if (problems.length > 0) {
+    throw new Error(`Network does not match src/services/networkData.schema.json:\n${problems.map(p => `  - ${p}`).join('\n')}`);
   }
-
-  return nameIndex;
+  console.log(`\n💾 Streaming network to ${filePath}...`);
+  fs.writeFileSync(filePath, JSON.stringify(networkData, null, 2));
+  console.log('✅ Network saved.');
 }
 
 /**
- * Build network for a custom EIN (using IRS data only, no Excel file)
+ * Build the network around the central funder from a dataset and write it out
  */
-async function buildCustomEINNetwork(dataset: CompleteDataset, centralEIN: string): Promise<{ nodes: any[]; links: any[] }> {
-  console.log(`\n🕸️  Building network for EIN ${centralEIN}...`);
-
-  const nodes: any[] = [];
-  const links: any[] = [];
-  const addedNodes = new Set<string>();
-
-  // Get the central foundation's data
-  const centralFoundation = dataset.foundations[centralEIN];
-  if (!centralFoundation) {
-    throw new Error(`Foundation with EIN ${centralEIN} not found in dataset`);
+async function buildAndSaveNetwork(
+  storedDataset: DatasetView,
+  registry: BmfRegistry | null,
+  exemptStatus: ExemptStatusList | null
+): Promise<void> {
+  // Overrides added since the dataset was stored apply too
+  const dataset = withGranteeOverrides(storedDataset, granteeOverrides);
+  const centrals: CentralFunder[] = CENTRAL_EINS.map((ein, i) => ({
+    ein,
+    name: i === 0 ? CENTRAL_NAME : null,
+    grants: i === 0 && MASTER_LIST_PATH ? loadMasterGrantsList(MASTER_LIST_PATH) : null
+  }));
+  const sources = { dataset, registry, overrides: granteeOverrides, matchOptions: MATCH_OPTIONS };
+  const { unmatchedGrantees, ...built } = buildNetwork(sources, centrals);
+  const network: BuiltNetwork & { interlocks?: Interlock[] } = built;
+  addSecondDegree(network, dataset);
+  if (registry) {
+    addNodeClassifications(network, registry);
   }
-
-  console.log(`   Found foundation: ${centralFoundation.name}`);
-  console.log(`   Total grants given: ${centralFoundation.grantsGiven?.length || 0}`);
-
-  // Build name lookup index for matching grantees without EINs
-  console.log(`   Building name-to-EIN lookup index...`);
-  const nameIndex = buildNameToEINIndex(dataset);
-  console.log(`   Index contains ${nameIndex.size} unique normalized names`);
-
-  // Add central foundation node
-  const centralId = centralEIN;
-  nodes.push({
-    id: centralId,
-    name: centralFoundation.name,
-    type: 'funder',
-    central: true, // Mark as central node for visualization
-    metadata: centralFoundation.metadata
-  });
-  addedNodes.add(centralId);
-
-  // Track grantees of the central foundation
-  const centralGranteeIds = new Set<string>();
-  const grantsGiven = centralFoundation.grantsGiven || [];
-
-  console.log(`   Processing ${grantsGiven.length} grants from central foundation...`);
-
-  // Group grants by recipient EIN to avoid duplicate links
-  const grantsByRecipient = new Map<string, Grant[]>();
-  let grantsWithoutEIN = 0;
-  let matchedByName = 0;
-  let multipleMatches = 0;
-
-  grantsGiven.forEach(grant => {
-    let ein = grant.recipientEIN;
-
-    // If no EIN, try to match by name (and address if multiple matches)
-    if (!ein || ein === '' || ein === 'unknown' || ein.startsWith('unknown_')) {
-      grantsWithoutEIN++;
-
-      // Try to find matching organization by normalized name
-      const normalizedName = normalizeOrgName(grant.recipientName);
-      const matches = nameIndex.get(normalizedName);
-
-      if (matches && matches.length === 1) {
-        // Single match found - use it
-        ein = matches[0];
-        matchedByName++;
-      } else if (matches && matches.length > 1) {
-        // Multiple matches - use address to disambiguate
-        let bestMatch = matches[0]; // Default to first match
-
-        if (grant.recipientCity && grant.recipientState) {
-          // Try to find match by city + state + zip
-          for (const candidateEIN of matches) {
-            const org = dataset.organizations[candidateEIN];
-            if (org?.metadata) {
-              const cityMatch = org.metadata.city?.toUpperCase() === grant.recipientCity.toUpperCase();
-              const stateMatch = org.metadata.state?.toUpperCase() === grant.recipientState.toUpperCase();
-
-              if (cityMatch && stateMatch) {
-                bestMatch = candidateEIN;
-                break;
-              }
-            }
-          }
-        }
-
-        ein = bestMatch;
-        matchedByName++;
-        multipleMatches++;
-      } else {
-        // No match - create placeholder ID
-        ein = `no_ein_${normalizedName}`;
-      }
-    }
-
-    if (!grantsByRecipient.has(ein)) {
-      grantsByRecipient.set(ein, []);
-    }
-    grantsByRecipient.get(ein)!.push(grant);
-  });
-
-  console.log(`   ${grantsWithoutEIN} grants had no EIN in source data`);
-  console.log(`   ${matchedByName} matched to organizations by name (${multipleMatches} had multiple matches)`);
-  console.log(`   Found ${grantsByRecipient.size} unique recipients`);
-
-  let matchedInIRS = 0;
-  let addedAsNodes = 0;
-
-  // Add grantees and their links
-  for (const [recipientEIN, grants] of grantsByRecipient.entries()) {
-    centralGranteeIds.add(recipientEIN);
-    const recipientOrg = dataset.organizations[recipientEIN];
-    const firstGrant = grants[0];
-
-    if (recipientOrg) {
-      matchedInIRS++;
-    }
-
-    if (!addedNodes.has(recipientEIN)) {
-      nodes.push({
-        id: recipientEIN,
-        name: recipientOrg?.name || firstGrant.recipientName,
-        type: 'grantee',
-        amount: grants.reduce((sum, g) => sum + g.amount, 0),
-        metadata: recipientOrg?.metadata,
-        grantsReceived: recipientOrg?.grantsReceived || grants.map(g => ({
-          funderEIN: centralEIN,
-          funderName: centralFoundation.name,
-          amount: g.amount,
-          year: g.year
-        }))
-      });
-      addedNodes.add(recipientEIN);
-      addedAsNodes++;
-    }
-
-    // Add links for each grant (different years)
-    for (const grant of grants) {
-      links.push({
-        source: centralId,
-        target: recipientEIN,
-        amount: grant.amount,
-        type: 'hlf-grant',
-        year: grant.year
-      });
-    }
-
-    // Add other funders of this grantee
-    if (recipientOrg && recipientOrg.grantsReceived) {
-      for (const grant of recipientOrg.grantsReceived) {
-        const funderEIN = grant.funderEIN;
-
-        // Skip if it's the central foundation itself
-        if (funderEIN === centralEIN) continue;
-
-        if (!addedNodes.has(funderEIN)) {
-          const funderData = dataset.foundations[funderEIN];
-          nodes.push({
-            id: funderEIN,
-            name: grant.funderName,
-            type: 'funder',
-            metadata: funderData?.metadata,
-            grantsGiven: funderData?.grantsGiven || []
-          });
-          addedNodes.add(funderEIN);
-        }
-
-        links.push({
-          source: funderEIN,
-          target: recipientEIN,
-          amount: grant.amount,
-          type: 'other-funder',
-          year: grant.year
-        });
-      }
-    }
+  if (exemptStatus) {
+    addNodeExemptStatus(network, exemptStatus);
   }
-
-  console.log(`   Added ${addedAsNodes} grantees to network`);
-  console.log(`   ${matchedInIRS} found in IRS dataset (have 990-PF filings)`);
-
-  const grantees = nodes.filter(n => n.type === 'grantee').length;
-  const funders = nodes.filter(n => n.type === 'funder').length;
-
-  console.log('\n📊 Network Statistics:');
-  console.log(`   Nodes: ${nodes.length}`);
-  console.log(`   Links: ${links.length}`);
-  console.log(`   Grantees: ${grantees}`);
-  console.log(`   Other Funders: ${funders}`);
-
-  return { nodes, links };
+  addBoardInterlocks(network, dataset);
+  await streamHLFNetworkToFile(
+    { schemaVersion: NETWORK_SCHEMA_VERSION, ...network, interlocks: network.interlocks ?? [] },
+    HLF_NETWORK_OUTPUT_PATH
+  );
+
+  const unmatchedReport = buildUnmatchedGranteeReport(unmatchedGrantees, sources);
+  fs.writeFileSync(UNMATCHED_GRANTEES_PATH, JSON.stringify(unmatchedReport, null, 2));
+  printUnmatchedGranteeSummary(unmatchedReport);
+  console.log(`   Candidates: ${UNMATCHED_GRANTEES_PATH} (confirm a match with an alias in ${config.overridesPath})`);
 }
 
 /**
- * Stream network data to file
+ * Rebuild only the network, from a SQLite dataset written by an earlier build
  */
-async function streamHLFNetworkToFile(networkData: { nodes: any[]; links: any[] }, filePath: string): Promise<void> {
-  console.log(`\n💾 Streaming network to ${filePath}...`);
-  fs.writeFileSync(filePath, JSON.stringify(networkData, null, 2));
-  console.log('✅ Network saved.');
+async function buildNetworkFromDatabase(): Promise<void> {
+  console.log(`🗄️  Reading dataset from SQLite database: ${DATABASE_PATH}`);
+  const db = openDatasetDb(DATABASE_PATH);
+  try {
+    console.log(`   Built ${db.metadata.generatedAt}: ${db.metadata.foundationsProcessed} foundations, ${db.metadata.totalGrants} grants`);
+    await buildAndSaveNetwork(db, await loadRegistry(), await loadExemptStatusList());
+  } finally {
+    db.close();
+  }
+  console.log(`\n    💾 Network saved to: ${HLF_NETWORK_OUTPUT_PATH}`);
 }
 
+const summarizeFoundationFiling = (f: FoundationFiling): FilingSummary => ({
+  ein: f.funderEIN, name: f.funderName, filing: f.filing, grants: f.grants.length
+});
+const summarizeOrganizationFiling = (o: OrganizationFiling): FilingSummary => ({
+  ein: o.ein, name: o.name, filing: o.filing, grants: o.grants?.length ?? 0
+});
+
 /**
  * Main
  */
 async function main() {
   const startTime = Date.now();
 
-  if (CUSTOM_EIN) {
-    console.log(`🚀 Building Grants Network for Custom EIN: ${CUSTOM_EIN}`);
+  if (config.ein) {
+    console.log(`🚀 Building Grants Network for Custom EIN${config.ein.length > 1 ? 's' : ''}: ${config.ein.join(', ')}`);
   } else {
     console.log('🚀 Building COMPLETE Bidirectional Grants Dataset from IRS Bulk Data');
   }
+  if (NETWORK_ONLY) {
+    await buildNetworkFromDatabase();
+    console.log(`\n✨ Done in ${((Date.now() - startTime) / 1000 / 60).toFixed(1)} minutes!`);
+    return;
+  }
   console.log(`📅 Processing years: ${YEARS.join(', ')}`);
+  if (SOURCE === 'local') {
+    console.log(`📂 Reading IRS data from local mirror: ${LOCAL_DIR}`);
+  }
+  if (MONTHS) {
+    console.log(`🗓️  Months: ${MONTHS.join(', ')}`);
+  }
+  if (TEST_MODE) {
+    console.log(`⚠️  TEST MODE: ${TEST_LIMIT} files per month`);
+  }
+  if (WORKERS > 0) {
+    console.log(`🧵 Parsing with ${WORKERS} worker threads (${WORKER_MEMORY_MB} MB heap each)`);
+  }
   console.log('');
   console.log('═'.repeat(60));
 
-  setupDirectory(false);
+  setupDirectory();
+
+  let allGrantsData: FoundationFiling[] = [];
+  let allOrgData: OrganizationFiling[] = [];
 
-  const allGrantsData: Array<{ funderEIN: string; funderName: string; grants: Grant[]; metadata?: any }> = [];
-  const allOrgData: Array<{ ein: string; name: string; metadata: any; grants?: Grant[] }> = [];
+  // Months already processed (and by which parser) - only new or changed months are reprocessed
+  const manifest = loadManifest(MONTH_CACHE_DIR);
+  let monthsReused = 0;
+  let monthsProcessed = 0;
+  const schemaSummaries: SchemaSummary[] = [];
+  const quarantine: QuarantineEntry[] = [];
+
+  // Parsing is CPU-bound, so spread it across worker threads unless disabled with --workers=0
+  const parserPool = WORKERS > 0
+    ? createXmlWorkerPool({ size: WORKERS, memoryMb: WORKER_MEMORY_MB, process990: PROCESS_990, parser: XML_PARSER })
+    : null;
 
   for (const year of YEARS) {
     console.log(`\n🗓️  === PROCESSING YEAR ${year} ===\n`);
 
-    // If TEST_SINGLE_MONTH is set, only process that month
-    const monthsToProcess = TEST_SINGLE_MONTH ? [TEST_SINGLE_MONTH] : Array.from({ length: 12 }, (_, i) => i + 1);
+    // If MONTHS is set, only process those months
+    const monthsToProcess = MONTHS ?? Array.from({ length: 12 }, (_, i) => i + 1);
 
     // Process months in parallel chunks of 3 to balance speed and memory
     const MONTHS_PER_CHUNK = 3;
@@ -1041,85 +930,125 @@ async function main() {
       await Promise.all(monthsInChunk.map(async (month) => {
         console.log(`        --- Processing ${year} Month: ${month} ---`);
 
-        const cachePath = path.join(CACHE_DIR, `${year}_month_${month}.json`);
-        const orgCachePath = path.join(CACHE_DIR, `${year}_month_${month}_orgs.json`);
+        const key = monthKey(year, month);
+        const cachePath = path.join(MONTH_CACHE_DIR, `${key}.json`);
+        const orgCachePath = path.join(MONTH_CACHE_DIR, `${key}_orgs.json`);
 
-        if (fs.existsSync(cachePath)) {
-          console.log(`✅ Loading month ${month} from cache...`);
-        const cachedData = JSON.parse(fs.readFileSync(cachePath, 'utf-8'));
-        allGrantsData.push(...cachedData);
+        const loadMonthFromCache = (entry: ManifestEntry) => {
+          const cachedData = JSON.parse(fs.readFileSync(entry.cachePath, 'utf-8'));
+          allGrantsData.push(...cachedData);
 
-        if (PROCESS_990 && fs.existsSync(orgCachePath)) {
-          const cachedOrgData = JSON.parse(fs.readFileSync(orgCachePath, 'utf-8'));
-          allOrgData.push(...cachedOrgData);
-        }
-        return;  // Skip processing if cached
-      }
+          if (PROCESS_990 && entry.orgCachePath && fs.existsSync(entry.orgCachePath)) {
+            const cachedOrgData = JSON.parse(fs.readFileSync(entry.orgCachePath, 'utf-8'));
+            allOrgData.push(...cachedOrgData);
+          }
+          if (entry.schema) schemaSummaries.push(entry.schema);
+          quarantine.push(...(entry.issues || []).map(issue => ({ ...issue, year, month })));
+          monthsReused++;
+        };
 
         // Use unique directory per month to avoid conflicts in parallel processing
-        const monthDataDir = path.join(__dirname, '..', 'data', 'irs_bulk', `${year}_month_${month}`);
-        const IRS_MONTHLY_ZIP_URL = `https://apps.irs.gov/pub/epostcard/990/xml/${year}/${year}_TEOS_XML_${String(month).padStart(2, '0')}A.zip`;
-        const monthlyGrantsData: Array<{ funderEIN: string; funderName: string; grants: Grant[]; metadata?: any }> = [];
+        const monthDataDir = path.join(DATA_DIR, key);
+        const monthlyGrantsData: FoundationFiling[] = [];
 
     try {
-        // Setup unique directory for this month
-        if (fs.existsSync(monthDataDir)) {
-          fs.rmSync(monthDataDir, { recursive: true, force: true });
+        // Describe the archive (without downloading it) to compare against the manifest
+        let localSource: LocalMonthSource | null = null;
+        let archive: ArchiveInfo | null = null;
+        let describeError: unknown = null;
+        if (SOURCE === 'local') {
+          localSource = findLocalMonthSource(LOCAL_DIR!, year, month);
+          if (!localSource) {
+            console.log(`\n⏭️  Skipping ${year} month ${month} - not in local mirror ${LOCAL_DIR}`);
+            return;
+          }
+          archive = await describeLocalSource(localSource);
+        } else if (!OFFLINE) {
+          try {
+            archive = await describeRemoteArchive(irsMonthlyZipUrl(year, month));
+          } catch (error) {
+            describeError = error;
+          }
         }
-        fs.mkdirSync(monthDataDir, { recursive: true });
 
-        const zipPath = path.join(monthDataDir, path.basename(IRS_MONTHLY_ZIP_URL));
+        let entry: ManifestEntry | undefined = manifest.entries[key];
+        if (!entry && fs.existsSync(cachePath)) {
+          const unknownArchive = { source: irsMonthlyZipUrl(year, month), size: null, lastModified: null, etag: null, checksum: null };
+          entry = adoptLegacyCache(year, month, archive ?? unknownArchive, cachePath, orgCachePath);
+          // Without the archive's headers, adopt it on a run that can check them
+          if (archive) {
+            manifest.entries[key] = entry;
+            saveManifest(MONTH_CACHE_DIR, manifest);
+            console.log(`📎 Added existing cache for ${year} month ${month} to the build manifest`);
+          }
+        }
 
-        await downloadFile(IRS_MONTHLY_ZIP_URL, zipPath);
+        // A month that is cached is never dropped because the IRS can't be reached
+        const loadUncheckedCache = (problem: string): boolean => {
+          const cached = checkCachedMonth(entry, RUN_REQUIREMENTS);
+          if (!cached.reuse || !entry) return false;
+          console.warn(`⚠️  ${problem}; loading ${year} month ${month} from cache (${cached.reason})`);
+          loadMonthFromCache(entry);
+          return true;
+        };
 
-        const zipFileName = path.basename(IRS_MONTHLY_ZIP_URL, '.zip');
-        const monthExtractPath = path.join(monthDataDir, 'xml');
-        fs.mkdirSync(monthExtractPath, { recursive: true });
-        const extractedSubdir = path.join(monthExtractPath, zipFileName);
+        if (!archive) {
+          if (loadUncheckedCache(OFFLINE ? 'Offline' : `Could not check the ${year} month ${month} archive (${describeError instanceof Error ? describeError.message : describeError})`)) {
+            return;
+          }
+          if (describeError) throw describeError; // 404s are skipped below
+          console.log(`\n⏭️  Skipping ${year} month ${month} - offline and ${checkCachedMonth(entry, RUN_REQUIREMENTS).reason}`);
+          return;
+        }
 
-        await extractZip(zipPath, extractedSubdir);
+        const decision = FORCE_REPROCESS
+          ? { reuse: false, reason: 'forced reprocess' }
+          : checkMonth(entry, archive, RUN_REQUIREMENTS);
 
-        // Check what actually got extracted - try nested dir first, then extractedSubdir
-        const nestedDir = path.join(extractedSubdir, zipFileName);
-        let xmlDir: string;
+        if (decision.reuse && entry) {
+          console.log(`✅ Loading month ${month} from cache (${decision.reason})...`);
+          loadMonthFromCache(entry);
+          return;  // Skip processing if cached
+        }
+        console.log(`🔄 Processing ${year} month ${month}: ${decision.reason}`);
 
-        if (fs.existsSync(nestedDir)) {
-          xmlDir = nestedDir;
-        } else if (fs.existsSync(extractedSubdir)) {
-          // Check if XML files are directly in extractedSubdir
-          const filesInExtracted = fs.readdirSync(extractedSubdir);
-          const xmlFilesInExtracted = filesInExtracted.filter(f => f.endsWith('.xml'));
+        // Setup unique directory for this month
+        if (fs.existsSync(monthDataDir)) {
+          fs.rmSync(monthDataDir, { recursive: true, force: true });
+        }
+        fs.mkdirSync(monthDataDir, { recursive: true });
 
-          if (xmlFilesInExtracted.length > 0) {
-            console.log(`   ℹ️  Files extracted directly to ${path.basename(extractedSubdir)}`);
-            xmlDir = extractedSubdir;
+        let xmlDir: string;
+        if (localSource) {
+          console.log(`📂 Reading ${year} month ${month} from local ${localSource.kind}: ${localSource.path}`);
+          if (localSource.kind === 'zip') {
+            xmlDir = await extractMonthlyZip(localSource.path, monthDataDir);
+          } else if (localSource.kind === 'extracted') {
+            xmlDir = locateXmlDir(localSource.path);
           } else {
-            // Check subdirectories
-            const subdirs = filesInExtracted.filter(f => {
-              const fullPath = path.join(extractedSubdir, f);
-              return fs.statSync(fullPath).isDirectory();
-            });
-
-            if (subdirs.length > 0) {
-              // Use the first subdirectory that contains XML files
-              const subdirWithXml = subdirs.find(subdir => {
-                const subdirPath = path.join(extractedSubdir, subdir);
-                const files = fs.readdirSync(subdirPath);
-                return files.some(f => f.endsWith('.xml'));
-              });
-
-              if (subdirWithXml) {
-                xmlDir = path.join(extractedSubdir, subdirWithXml);
-                console.log(`   ℹ️  Found XML files in subdirectory: ${subdirWithXml}`);
-              } else {
-                throw new Error(`Extraction failed - no XML files found in ${extractedSubdir} or subdirectories`);
-              }
-            } else {
-              throw new Error(`Extraction failed - no XML files or subdirectories found in ${extractedSubdir}`);
-            }
+            xmlDir = localSource.path;
           }
         } else {
-          throw new Error(`Extraction failed - directory not found: ${extractedSubdir}`);
+          const zipUrl = irsMonthlyZipUrl(year, month);
+          const zipPath = path.join(monthDataDir, path.basename(zipUrl));
+          try {
+            await downloadFile(zipUrl, zipPath);
+          } catch (error) {
+            if (loadUncheckedCache(`Could not download the ${year} month ${month} archive (${error instanceof Error ? error.message : error})`)) return;
+            throw error;
+          }
+          archive.checksum = await sha256File(zipPath);
+
+          // Headers changed but the bytes didn't (e.g. the IRS re-uploaded the same file)
+          if (!FORCE_REPROCESS && entry && isSameArchive(entry, archive.checksum, RUN_REQUIREMENTS)) {
+            console.log(`✅ Downloaded archive is identical to the cached one, loading month ${month} from cache...`);
+            manifest.entries[key] = { ...entry, ...archive };
+            saveManifest(MONTH_CACHE_DIR, manifest);
+            loadMonthFromCache(entry);
+            return;
+          }
+
+          xmlDir = await extractMonthlyZip(zipPath, monthDataDir);
         }
 
         let allXmlFiles = fs.readdirSync(xmlDir)
@@ -1131,19 +1060,17 @@ async function main() {
           allXmlFiles = allXmlFiles.slice(0, TEST_LIMIT);
         }
 
-        console.log(`🔍 Processing ${allXmlFiles.length} XML files for month ${month} (${CONCURRENCY_LIMIT} concurrent, batches of ${BATCH_SIZE})...`);
+        const parallelism = WORKERS > 0 ? `${WORKERS} worker threads` : `${CONCURRENCY_LIMIT} concurrent`;
+        console.log(`🔍 Processing ${allXmlFiles.length} XML files for month ${month} (${parallelism}, batches of ${BATCH_SIZE})...`);
         let processedCount = 0;
         let pfCount = 0;
         let orgCount = 0;
+        const monthSchema = createSchemaSummary();
+        const monthIssues: FilingIssue[] = [];
 
         // Process in batches to control memory
         const limit = pLimit(CONCURRENCY_LIMIT);
 
-        // Define result types for clarity
-        type PFResult = { type: 'pf'; data: { funderEIN: string; funderName: string; grants: Grant[]; metadata?: any } };
-        type OrgResult = { type: 'org'; data: { ein: string; name: string; metadata: any; grants?: Grant[] } };
-        type BatchResult = PFResult | OrgResult | null;
-
         // Open file stream for org data - write incrementally instead of accumulating in memory
         let orgFileStream: fs.WriteStream | null = null;
         if (PROCESS_990) {
@@ -1158,29 +1085,10 @@ async function main() {
           console.log(`  Processing batch ${Math.floor(batchStart / BATCH_SIZE) + 1}/${Math.ceil(allXmlFiles.length / BATCH_SIZE)} (${batchFiles.length} files)...`);
 
           // Process files in parallel within this batch
-          const batchPromises = batchFiles.map(xmlPath =>
-            limit(async (): Promise<BatchResult> => {
-              // Try parsing as 990-PF first
-              const pfResult = await processXmlFile(xmlPath, year);
-
-              if (pfResult) {
-                if (pfResult.grants.length > 0) {
-                  return { type: 'pf' as const, data: pfResult };
-                }
-                // 990-PF with no grants, don't try to parse as 990
-                return null;
-              }
-
-              // If PROCESS_990 is enabled and it wasn't a 990-PF, try parsing as 990
-              if (PROCESS_990) {
-                const orgResult = await parseXML990File(xmlPath, year);
-                if (orgResult) {
-                  return { type: 'org' as const, data: orgResult };
-                }
-              }
-
-              return null;
-            })
+          const batchPromises = batchFiles.map((xmlPath): Promise<BatchResult> =>
+            parserPool
+              ? parserPool.parse(xmlPath, year)
+              : limit(() => processXmlFile(xmlPath, year, { process990: PROCESS_990, parser: XML_PARSER }))
           );
 
           // Wait for batch to complete
@@ -1189,9 +1097,16 @@ async function main() {
           // Collect results and write orgs incrementally to avoid memory buildup
           for (const result of batchResults) {
             if (result) {
+              monthIssues.push(...result.issues);
+              if (result.type !== 'failed') {
+                addSchemaCheck(monthSchema, result.schema);
+              }
               if (result.type === 'pf') {
                 monthlyGrantsData.push(result.data);
                 pfCount++;
+              } else if (result.type === 'empty') {
+                // Kept for amended and duplicate return resolution only
+                monthlyGrantsData.push(result.data);
               } else if (result.type === 'org' && orgFileStream) {
                 // Write directly to stream instead of accumulating in array
                 if (orgCount > 0) orgFileStream.write(',\n');
@@ -1232,6 +1147,32 @@ async function main() {
           allOrgData.push(...orgData);
         }
 
+        // Files a crashed or out-of-memory worker dropped are missing from the cache, so it must not be reused as complete
+        const workerFailures = monthIssues.filter(issue => issue.errorClass === 'worker-failure').length;
+        if (workerFailures > 0) {
+          console.log(`⚠️  ${workerFailures} files in ${year} month ${month} failed in a parser worker; the month will be processed again on the next build`);
+        }
+
+        manifest.entries[key] = {
+          ...archive,
+          year,
+          month,
+          parserVersion: PARSER_VERSION,
+          process990: PROCESS_990,
+          testLimit: TEST_MODE ? TEST_LIMIT : null,
+          cachePath,
+          orgCachePath: PROCESS_990 ? orgCachePath : null,
+          processedAt: new Date().toISOString(),
+          filings: { pf: pfCount, org: orgCount },
+          schema: monthSchema,
+          issues: monthIssues,
+          ...(workerFailures > 0 ? { workerFailures } : {})
+        };
+        saveManifest(MONTH_CACHE_DIR, manifest);
+        schemaSummaries.push(monthSchema);
+        quarantine.push(...monthIssues.map(issue => ({ ...issue, year, month })));
+        monthsProcessed++;
+
         } catch (error: any) {
           // Check if it's a 404 error (month doesn't exist yet)
           const is404 = error?.response?.status === 404 ||
@@ -1239,6 +1180,9 @@ async function main() {
 
           if (is404) {
             console.log(`\n⏭️  Skipping ${year} month ${month} - data not available yet (404)`);
+          } else if (parserPool?.failedToStart) {
+            // Every other month would fail the same way
+            throw error;
           } else {
             console.log(`\n❌ Fatal error during ${year} month ${month}:`, error);
           }
@@ -1253,6 +1197,47 @@ async function main() {
     }  // end chunks loop
   }  // end year loop
 
+  await parserPool?.close();
+
+  console.log(`\n📋 Build manifest: ${monthsProcessed} months processed, ${monthsReused} reused from cache`);
+
+  // Report schema versions no field table covers and expected fields that came back empty
+  const schemaReport = mergeSchemaSummaries(schemaSummaries);
+  fs.writeFileSync(SCHEMA_REPORT_PATH, JSON.stringify(schemaReport, null, 2));
+  console.log(`\n🧭 Schema coverage: ${schemaReport.returns} returns in ${Object.keys(schemaReport.versions).length} schema versions`);
+  for (const [version, count] of Object.entries(schemaReport.unmappedVersions)) {
+    console.warn(`   ⚠️  No field mapping for schema version ${version} (${count} returns, read with the newest mapping)`);
+  }
+  const emptyFields = Object.entries(schemaReport.emptyFields).sort((a, b) => b[1].count - a[1].count);
+  for (const [field, { count, versions }] of emptyFields) {
+    console.warn(`   ⚠️  ${field} empty in ${count} returns (versions: ${Object.keys(versions).join(', ')})`);
+  }
+  console.log(`   Schema report: ${SCHEMA_REPORT_PATH}`);
+
+  // Filings that failed to parse or look wrong; the summary prints at the end of the build
+  const previousQuarantine = loadQuarantineReport(QUARANTINE_REPORT_PATH);
+  const quarantineReport = buildQuarantineReport(quarantine);
+  fs.writeFileSync(QUARANTINE_REPORT_PATH, JSON.stringify(quarantineReport, null, 2));
+
+  // Drop returns replaced by an amended or later return for the same EIN, tax period and form
+  console.log(`\n🧾 Resolving amended and duplicate returns...`);
+  const pfDedupe = dedupeFilings(allGrantsData, summarizeFoundationFiling);
+  const orgDedupe = dedupeFilings(allOrgData, summarizeOrganizationFiling);
+  // 990-PFs without grants took part only to supersede earlier returns
+  allGrantsData = pfDedupe.kept.filter(f => f.grants.length > 0 || (f.commitments?.length ?? 0) > 0);
+  allOrgData = orgDedupe.kept;
+  const keptFilings = [...pfDedupe.kept.map(summarizeFoundationFiling), ...orgDedupe.kept.map(summarizeOrganizationFiling)];
+
+  const superseded = [...pfDedupe.superseded, ...orgDedupe.superseded];
+  fs.writeFileSync(SUPERSEDED_LOG_PATH, JSON.stringify(superseded, null, 2));
+  const supersededGrants = superseded.reduce((sum, f) => sum + f.grants, 0);
+  console.log(`   Dropped ${superseded.length} superseded filings (${supersededGrants} grants)`);
+  for (const reason of ['amended', 'later filing', 'duplicate'] as const) {
+    const count = superseded.filter(f => f.reason === reason).length;
+    if (count > 0) console.log(`     ${reason}: ${count}`);
+  }
+  console.log(`   Superseded filings log: ${SUPERSEDED_LOG_PATH}`);
+
   // Pre-process Form 990 data: extract grant-makers and add to allGrantsData
   if (PROCESS_990 && allOrgData.length > 0) {
     console.log(`\n📝 Processing ${allOrgData.length} Form 990 organizations...`);
@@ -1265,6 +1250,7 @@ async function main() {
           funderEIN: org.ein,
           funderName: org.name,
           grants: org.grants,
+          people: org.people,
           metadata: org.metadata
         });
         grantMakers++;
@@ -1298,7 +1284,8 @@ async function main() {
             ein: org.ein,
             name: org.name,
             grantsReceived: [],
-            metadata: org.metadata
+            metadata: org.metadata,
+            people: latestPeople(undefined, org.people)
           };
           addedOrgs++;
         } else {
@@ -1307,40 +1294,39 @@ async function main() {
             dataset.organizations[org.ein].metadata = org.metadata;
             updated++;
           }
+          dataset.organizations[org.ein].people = latestPeople(dataset.organizations[org.ein].people, org.people);
         }
       }
     }
 
     console.log(`   Added ${addedOrgs} non-grant-making organizations from Form 990`);
     console.log(`   Updated ${updated} existing entries with Form 990 metadata`);
+  }
 
-    // Consolidate placeholder entries with real EINs
-    console.log(`\n🔗 Consolidating placeholder entries with real EINs...`);
-    const nameIndex = buildNameToEINIndex(dataset);
-    let consolidated = 0;
-
-    const placeholderKeys = Object.keys(dataset.organizations).filter(k => k.startsWith('no_ein_'));
-    for (const placeholderKey of placeholderKeys) {
-      const org = dataset.organizations[placeholderKey];
-      const normalizedName = normalizeOrgName(org.name);
-
-      // Try to find a real EIN match
-      const matches = nameIndex.get(normalizedName);
-      if (matches && matches.length > 0) {
-        // Find the first match that's NOT a placeholder
-        const realEIN = matches.find(ein => !ein.startsWith('no_ein_'));
-        if (realEIN && realEIN !== placeholderKey) {
-          // Merge grantsReceived into the real entry
-          if (dataset.organizations[realEIN]) {
-            dataset.organizations[realEIN].grantsReceived.push(...org.grantsReceived);
-            consolidated++;
-          }
-          // Delete the placeholder entry
-          delete dataset.organizations[placeholderKey];
-        }
-      }
-    }
-    console.log(`   Consolidated ${consolidated} placeholder entries into real EINs`);
+  const registry = await loadRegistry();
+  const exemptStatus = await loadExemptStatusList();
+
+  // Merge duplicate EINs and placeholder entries into the real EIN the overrides or entity resolution give
+  console.log(`\n🔗 Resolving placeholder entries to real EINs (threshold ${MATCH_OPTIONS.threshold}, margin ${MATCH_OPTIONS.margin})...`);
+  const { aliases, neverMatch, merges, fiscalSponsors } = granteeOverrides.size;
+  console.log(`   Grantee overrides: ${aliases} aliases, ${neverMatch} never-match names, ${merges} duplicate EINs, ${fiscalSponsors} fiscal sponsors`);
+  const placeholderMatches = consolidateRecipients(dataset, allGrantsData, registry);
+  const countMatches = (status: MatchResult['status']) => placeholderMatches.filter(m => m.status === status).length;
+  const byOverride = placeholderMatches.filter(m => m.match?.evidence[0].signal === 'override').length;
+  console.log(`   Consolidated ${countMatches('matched')} placeholder entries into real EINs (${byOverride} by override)`);
+  console.log(`   Kept ${countMatches('ambiguous')} ambiguous and ${countMatches('unmatched')} low-scoring matches as placeholders`);
+  fs.writeFileSync(RECIPIENT_MATCHES_PATH, JSON.stringify({
+    generatedAt: new Date().toISOString(),
+    options: MATCH_OPTIONS,
+    matches: placeholderMatches
+  }, null, 2));
+  console.log(`   Recipient matches: ${RECIPIENT_MATCHES_PATH}`);
+
+  if (registry) {
+    classifyOrganizations(dataset, registry);
+  }
+  if (exemptStatus) {
+    flagExemptStatus(dataset, exemptStatus);
   }
 
   console.log(`
@@ -1348,23 +1334,29 @@ async function main() {
   console.log(`   Foundations: ${Object.keys(dataset.foundations).length}`);
   console.log(`   Organizations (recipients): ${Object.keys(dataset.organizations).length}`);
   console.log(`   Total grants: ${dataset.metadata.totalGrants}`);
+  console.log(`   Future commitments: ${dataset.metadata.totalCommitments}`);
 
   // Build network BEFORE streaming complete dataset to avoid re-reading large file
-  let network: { nodes: any[]; links: any[] };
-  if (CUSTOM_EIN) {
-    network = await buildCustomEINNetwork(dataset, CUSTOM_EIN);
-  } else {
-    network = await buildHLFNetwork(dataset);
-  }
-  await streamHLFNetworkToFile(network, HLF_NETWORK_OUTPUT_PATH);
+  await buildAndSaveNetwork(inMemoryDatasetView(dataset), registry, exemptStatus);
 
-  // Stream complete dataset to file
-  await streamDatasetToFile(dataset, OUTPUT_PATH);
+  // Stream complete dataset to file and/or write it to the SQLite database
+  const savedTo: string[] = [];
+  if (DATASET_FORMAT !== 'sqlite') {
+    await streamDatasetToFile(dataset, OUTPUT_PATH);
+    savedTo.push(OUTPUT_PATH);
+  }
+  if (DATASET_FORMAT !== 'json') {
+    writeDatasetDb(DATABASE_PATH, dataset, allGrantsData, { kept: keptFilings, superseded });
+    savedTo.push(DATABASE_PATH);
+  }
   console.log(`
-    💾 Complete dataset saved to: ${OUTPUT_PATH}
+    💾 Complete dataset saved to: ${savedTo.join(', ')}
     💾 Network saved to: ${HLF_NETWORK_OUTPUT_PATH}
   `);
 
+  printQuarantineSummary(quarantineReport, previousQuarantine);
+  console.log(`   Quarantine report: ${QUARANTINE_REPORT_PATH}`);
+
   const endTime = Date.now();
   console.log(`
 ✨ Done in ${((endTime - startTime) / 1000 / 60).toFixed(1)} minutes!`);
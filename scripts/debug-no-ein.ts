@@ -2,7 +2,7 @@
  * Debug script to analyze no_ein_ entries and improve EIN reconciliation
  *
  * This script:
- * 1. Loads the complete dataset
+ * 1. Opens the complete dataset (the SQLite database if there is one, else the JSON)
  * 2. Finds all no_ein_ entries
  * 3. Checks if they could be matched to real EINs
  * 4. Shows statistics and examples
@@ -11,56 +11,36 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
+import { inMemoryDatasetView, normalizeOrgName, type CompleteDataset, type DatasetView } from './lib/complete-dataset';
+import { openDatasetDb } from './lib/dataset-db';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const DATASET_PATH = path.join(__dirname, '..', 'data', 'complete-grants-dataset.json');
-
-interface Organization {
-  ein: string;
-  name: string;
-  grantsReceived: any[];
-  metadata?: any;
-}
-
-interface Foundation {
-  ein: string;
-  name: string;
-  grantsGiven: any[];
-  metadata?: any;
-}
-
-interface Dataset {
-  foundations: { [ein: string]: Foundation };
-  organizations: { [ein: string]: Organization };
-}
-
-// Normalize organization name for matching
-function normalizeOrgName(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/\b(inc|incorporated|llc|ltd|limited|corp|corporation|foundation|fund|trust|the|a|an)\b/g, '')
-    .replace(/[^a-z0-9]+/g, '')
-    .trim();
-}
+const DATABASE_PATH = path.join(__dirname, '..', 'data', 'complete-grants-dataset.sqlite');
 
 async function main() {
   console.log('📊 Debugging no_ein_ entries...\n');
 
-  // Load dataset
-  if (!fs.existsSync(DATASET_PATH)) {
-    console.error(`❌ Dataset not found at ${DATASET_PATH}`);
+  // Open the SQLite dataset, or load the JSON one into memory
+  let dataset: DatasetView;
+  if (fs.existsSync(DATABASE_PATH)) {
+    console.log(`🗄️  Opening dataset database ${DATABASE_PATH}...`);
+    dataset = openDatasetDb(DATABASE_PATH);
+  } else if (fs.existsSync(DATASET_PATH)) {
+    console.log(`📂 Loading dataset from ${DATASET_PATH}...`);
+    dataset = inMemoryDatasetView(JSON.parse(fs.readFileSync(DATASET_PATH, 'utf-8')) as CompleteDataset);
+  } else {
+    console.error(`❌ Dataset not found at ${DATABASE_PATH} or ${DATASET_PATH}`);
     console.error('   Run "npm run build-complete-dataset" first.');
     process.exit(1);
   }
 
-  console.log(`📂 Loading dataset from ${DATASET_PATH}...`);
-  const dataset: Dataset = JSON.parse(fs.readFileSync(DATASET_PATH, 'utf-8'));
-
   // Count no_ein entries
-  const noEinOrgs = Object.keys(dataset.organizations).filter(k => k.startsWith('no_ein_'));
-  const totalOrgs = Object.keys(dataset.organizations).length;
+  const organizationNames = new Map(dataset.organizationNames());
+  const noEinOrgs = [...organizationNames.keys()].filter(k => k.startsWith('no_ein_'));
+  const totalOrgs = organizationNames.size;
   const realEinOrgs = totalOrgs - noEinOrgs.length;
 
   console.log(`\n📈 Statistics:`);
@@ -70,9 +50,9 @@ async function main() {
 
   // Build name-to-EIN index from organizations with real EINs
   const nameIndex = new Map<string, string[]>();
-  for (const [ein, org] of Object.entries(dataset.organizations)) {
+  for (const [ein, name] of organizationNames) {
     if (!ein.startsWith('no_ein_')) {
-      const normalized = normalizeOrgName(org.name);
+      const normalized = normalizeOrgName(name);
       if (!nameIndex.has(normalized)) {
         nameIndex.set(normalized, []);
       }
@@ -87,8 +67,8 @@ async function main() {
   const examples: Array<{ noEinId: string; name: string; matchedEINs: string[]; grantCount: number }> = [];
 
   for (const noEinId of noEinOrgs.slice(0, 10000)) { // Sample first 10k
-    const org = dataset.organizations[noEinId];
-    const normalized = normalizeOrgName(org.name);
+    const name = organizationNames.get(noEinId)!;
+    const normalized = normalizeOrgName(name);
     const matches = nameIndex.get(normalized);
 
     if (matches && matches.length > 0) {
@@ -96,9 +76,9 @@ async function main() {
       if (examples.length < 20) {
         examples.push({
           noEinId,
-          name: org.name,
+          name,
           matchedEINs: matches,
-          grantCount: org.grantsReceived.length
+          grantCount: dataset.organization(noEinId)!.grantsReceived.length
         });
       }
     }
@@ -114,8 +94,7 @@ async function main() {
     console.log(`   Grants received: ${example.grantCount}`);
     console.log(`   Matched EINs: ${example.matchedEINs.join(', ')}`);
     if (example.matchedEINs.length > 0) {
-      const matchedOrg = dataset.organizations[example.matchedEINs[0]];
-      console.log(`   Matched name: "${matchedOrg.name}"`);
+      console.log(`   Matched name: "${organizationNames.get(example.matchedEINs[0])}"`);
     }
   }
 
@@ -125,7 +104,7 @@ async function main() {
   let totalNoEinGrants = 0;
 
   for (const noEinId of noEinOrgs.slice(0, 1000)) { // Sample first 1k
-    const org = dataset.organizations[noEinId];
+    const org = dataset.organization(noEinId)!;
     for (const grant of org.grantsReceived) {
       totalNoEinGrants++;
       const funderName = grant.funderName || 'Unknown';
@@ -0,0 +1,113 @@
+/**
+ * Generate the TypeScript types for grants-network-data.json from its JSON
+ * Schema, so the build and the app share one definition of the format.
+ *
+ * Reads src/services/networkData.schema.json and writes src/services/networkData.ts.
+ * Run it after every change to the schema; --check only reports whether the
+ * types are out of date (exit code 1), for CI.
+ *
+ * Usage:
+ *   npm run generate-network-types [-- --check]
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import type { JsonSchema } from '../src/services/networkSchema';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const SCHEMA_PATH = path.join(__dirname, '..', 'src', 'services', 'networkData.schema.json');
+const TYPES_PATH = path.join(__dirname, '..', 'src', 'services', 'networkData.ts');
+
+const HEADER = `/**
+ * Types for grants-network-data.json, generated from networkData.schema.json
+ * by scripts/generate-network-types.ts. Do not edit: change the schema and run
+ * npm run generate-network-types.
+ */
+`;
+
+function refName(ref: string): string {
+  if (!ref.startsWith('#/$defs/')) throw new Error(`Unsupported $ref ${ref}: only #/$defs/<name> is supported`);
+  return ref.slice('#/$defs/'.length);
+}
+
+// A const or enum value as a TypeScript literal, with the repo's single quotes
+function literal(value: unknown): string {
+  return typeof value === 'string' ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'` : JSON.stringify(value);
+}
+
+function tsType(schema: JsonSchema, indent: string): string {
+  if (schema.$ref) return refName(schema.$ref);
+  if (schema.const !== undefined) return literal(schema.const);
+  if (schema.enum) return schema.enum.map(literal).join(' | ');
+
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types.length === 0) return 'unknown';
+  return types.map(type => {
+    switch (type) {
+      case 'string':
+        return 'string';
+      case 'number':
+      case 'integer':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      case 'null':
+        return 'null';
+      case 'array': {
+        const items = schema.items ? tsType(schema.items, indent) : 'unknown';
+        return items.includes(' | ') ? `Array<${items}>` : `${items}[]`;
+      }
+      case 'object':
+        return schema.properties ? objectType(schema, indent) : 'Record<string, unknown>';
+      default:
+        throw new Error(`Unsupported type ${type}`);
+    }
+  }).join(' | ');
+}
+
+function objectType(schema: JsonSchema, indent: string): string {
+  const required = new Set(schema.required ?? []);
+  const lines = Object.entries(schema.properties ?? {}).map(([name, property]) => {
+    const comment = property.description ? ` // ${property.description}` : '';
+    return `${indent}  ${name}${required.has(name) ? '' : '?'}: ${tsType(property, `${indent}  `)};${comment}`;
+  });
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+function declaration(name: string, schema: JsonSchema): string {
+  const comment = schema.description ? `// ${schema.description}\n` : '';
+  return schema.type === 'object' && schema.properties
+    ? `${comment}export interface ${name} ${objectType(schema, '')}\n`
+    : `${comment}export type ${name} = ${tsType(schema, '')};\n`;
+}
+
+function generateNetworkTypes(schema: JsonSchema): string {
+  if (!schema.title) throw new Error('The schema needs a title, for the name of the root type');
+  const declarations = [
+    declaration(schema.title, schema),
+    ...Object.entries(schema.$defs ?? {}).map(([name, def]) => declaration(name, def))
+  ];
+  return `${HEADER}\n${declarations.join('\n')}`;
+}
+
+function main() {
+  const schema: JsonSchema = JSON.parse(fs.readFileSync(SCHEMA_PATH, 'utf-8'));
+  const types = generateNetworkTypes(schema);
+  const current = fs.existsSync(TYPES_PATH) ? fs.readFileSync(TYPES_PATH, 'utf-8') : null;
+
+  if (process.argv.includes('--check')) {
+    if (current !== types) {
+      console.error(`❌ ${path.relative(process.cwd(), TYPES_PATH)} is out of date; run npm run generate-network-types`);
+      process.exit(1);
+    }
+    console.log('✅ Network types are up to date');
+    return;
+  }
+
+  fs.writeFileSync(TYPES_PATH, types);
+  console.log(`✅ Wrote ${path.relative(process.cwd(), TYPES_PATH)}${current === types ? ' (unchanged)' : ''}`);
+}
+
+main();
@@ -0,0 +1,563 @@
+/**
+ * Run configuration for build-complete-grants-dataset.
+ *
+ * Values are resolved in three layers, later layers winning:
+ * 1. Built-in defaults (the production run)
+ * 2. An optional JSON or YAML file passed with --config=<file>
+ * 3. Command-line flags
+ *
+ * Everything is validated up front so a typo fails in the first second
+ * instead of three hours into a build.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { fileURLToPath } from 'url';
+import YAML from 'yaml';
+import { DEFAULT_MATCH_OPTIONS } from './entity-resolution';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const REPO_ROOT = path.join(__dirname, '..', '..');
+
+export interface BuildConfig {
+  years: number[];
+  months: number[] | null; // null = all twelve months
+  testMode: boolean;
+  testLimit: number;
+  process990: boolean;
+  concurrency: number; // In-process parsers per batch when workers is 0
+  batchSize: number;
+  workers: number; // Parser worker threads (0 = parse on the main thread)
+  workerMemoryMb: number; // Heap limit per worker thread
+  xmlParser: 'stream' | 'xml2js'; // Streaming SAX extractor or the legacy full-tree parser
+  forceReprocess: boolean; // Ignore the build manifest and reprocess every month
+  offline: boolean; // Never contact the IRS: cached months load as they are, others are skipped
+  ein: string[] | null; // Central funder EINs, up to MAX_CENTRAL_FUNDERS (null = HLF)
+  centralName: string | null; // Central funder display name (null = Hidden Leaf Foundation, or from the IRS data with --ein)
+  source: 'irs' | 'local'; // Download from apps.irs.gov or read a local mirror
+  localDir: string | null; // Local mirror directory (see lib/local-mirror.ts)
+  dataDir: string;
+  cacheDir: string;
+  outputPath: string;
+  datasetFormat: 'json' | 'sqlite' | 'both'; // How the complete dataset is stored
+  databasePath: string; // SQLite dataset (see lib/dataset-db.ts)
+  networkOnly: boolean; // Skip IRS processing and build the network from databasePath
+  matchThreshold: number; // Minimum entity resolution score to merge a recipient (see lib/entity-resolution.ts)
+  matchMargin: number; // Minimum lead over the runner-up candidate
+  overridesPath: string; // Manual grantee aliases, exclusions and merges (see lib/grantee-overrides.ts)
+  bmfDir: string | null; // IRS EO BMF CSV extract for EIN lookup and NTEE codes (see lib/eo-bmf.ts)
+  revocationListPath: string | null; // IRS auto-revocation list (see lib/exempt-status.ts)
+  pub78Path: string | null; // IRS Publication 78 data
+  networkDepth: number; // 1: grantees and co-funders; 2: adds the co-funders' other grantees (see lib/network-expansion.ts)
+  includeCofunderFunders: boolean; // With networkDepth 2, also add the funders of co-funders
+  expansionMinOverlap: number; // Co-funders a second-degree organization must share
+  expansionMinAmount: number; // Dollars between a second-degree organization and those co-funders
+  networkOutputPath: string;
+  masterListPath: string | null; // Central funder's own grants list (see lib/network-builder.ts); null = its IRS returns
+  grantsListMappingPath: string; // How to read the grants list: sheets, columns, skip rules (see lib/grants-list.ts)
+}
+
+export const DEFAULT_CONFIG: BuildConfig = {
+  years: [2022, 2023, 2024, 2025],
+  months: null,
+  testMode: false,
+  testLimit: 200,
+  process990: true,
+  concurrency: 20,
+  batchSize: 2000,
+  workers: Math.max(1, os.availableParallelism() - 1),
+  workerMemoryMb: 512,
+  xmlParser: 'stream',
+  forceReprocess: false,
+  offline: false,
+  ein: null,
+  centralName: null,
+  source: 'irs',
+  localDir: null,
+  dataDir: path.join(REPO_ROOT, 'data', 'irs_bulk'),
+  cacheDir: path.join(REPO_ROOT, '.cache', 'monthly'),
+  outputPath: path.join(REPO_ROOT, 'data', 'complete-grants-dataset.json'),
+  datasetFormat: 'json',
+  databasePath: path.join(REPO_ROOT, 'data', 'complete-grants-dataset.sqlite'),
+  networkOnly: false,
+  matchThreshold: DEFAULT_MATCH_OPTIONS.threshold,
+  matchMargin: DEFAULT_MATCH_OPTIONS.margin,
+  overridesPath: path.join(REPO_ROOT, 'data', 'grantee-overrides.yaml'),
+  bmfDir: null,
+  revocationListPath: null,
+  pub78Path: null,
+  networkDepth: 1,
+  includeCofunderFunders: false,
+  expansionMinOverlap: 2,
+  expansionMinAmount: 0,
+  networkOutputPath: path.join(REPO_ROOT, 'public', 'grants-network-data.json'),
+  masterListPath: path.join(REPO_ROOT, 'public', 'master_grants_list.xlsx'),
+  grantsListMappingPath: path.join(REPO_ROOT, 'data', 'grants-list-mapping.yaml'),
+};
+
+// More central funders than this make an unreadable graph
+export const MAX_CENTRAL_FUNDERS = 10;
+
+const PATH_KEYS = ['dataDir', 'cacheDir', 'outputPath', 'databasePath', 'overridesPath', 'networkOutputPath', 'grantsListMappingPath'] as const;
+
+export const USAGE = `
+Usage: npm run build-complete-dataset -- [options]
+
+Options:
+  --config=<file>          JSON or YAML file with any of the options below (camelCase keys)
+  --years=<list>           Years to process, e.g. 2024 or 2022-2025 or 2023,2025
+  --months=<list>          Months to process, e.g. 5 or 1-3 (default: all 12)
+  --test-limit=<n>         Test mode: only process the first n XML files per month
+  --skip-990               Only process Form 990-PF (skip Form 990/990-EZ public charities)
+  --workers=<n>            Parser worker threads (default: CPU cores - 1, 0 = main thread)
+  --worker-memory=<mb>     Heap limit per worker thread in MB (default: 512)
+  --concurrency=<n>        Concurrent XML parsers per batch with --workers=0 (default: 20)
+  --batch-size=<n>         XML files per batch (default: 2000)
+  --xml-parser=<name>      stream (default) or xml2js (legacy full-tree parser)
+  --force-reprocess        Reprocess every month even if the build manifest says it is current
+  --offline                Don't contact the IRS: load cached months unchecked, skip the rest
+  --ein=<list>             Central funder EINs instead of HLF, comma-separated (up to ${MAX_CENTRAL_FUNDERS})
+  --central-name=<name>    Central funder name (default: Hidden Leaf Foundation, or from the IRS data with --ein)
+  --source=<irs|local>     Download from the IRS (default) or read a local mirror
+  --local-dir=<dir>        Local mirror of IRS ZIPs or XML files (implies --source=local)
+  --data-dir=<dir>         Scratch directory for downloaded ZIPs
+  --cache-dir=<dir>        Monthly cache directory
+  --output=<file>          Complete dataset output path
+  --dataset-format=<fmt>   Store the complete dataset as json (default), sqlite or both
+  --database=<file>        SQLite dataset path (default: data/complete-grants-dataset.sqlite)
+  --network-only           Build the network from the SQLite dataset without processing IRS data
+  --match-threshold=<p>    Minimum score (0-1) to match a recipient without an EIN (default: ${DEFAULT_MATCH_OPTIONS.threshold})
+  --match-margin=<p>       Minimum lead over the next candidate, else ambiguous (default: ${DEFAULT_MATCH_OPTIONS.margin})
+  --overrides=<file>       Grantee overrides (default: data/grantee-overrides.yaml)
+  --bmf-dir=<dir>          IRS EO BMF CSV files for EIN lookup and NTEE codes (default: none)
+  --revocation-list=<file> IRS auto-revocation list (data-download-revocation.txt) to flag revoked organizations
+  --pub78=<file>           IRS Publication 78 data (data-download-pub78.txt) to flag organizations not listed
+  --depth=<1|2>            Network depth: 1 stops at co-funders (default), 2 adds the organizations they fund
+  --cofunder-funders       With --depth=2, also add the funders of co-funders
+  --min-overlap=<n>        Co-funders a second-degree organization must share (default: 2)
+  --min-amount=<usd>       Dollars between a second-degree organization and those co-funders (default: 0)
+  --network-output=<file>  Network JSON output path
+  --master-list=<file>     First central funder's own grants list (.xlsx), used instead of its IRS returns
+  --grants-list-mapping=<file>  Sheets, columns and skip rules for the grants list (default: data/grants-list-mapping.yaml)
+  --help                   Show this message
+
+Examples:
+  npm run build-complete-dataset -- --years=2024 --months=5 --test-limit=200
+  npm run build-complete-dataset -- --config=config/nightly.yaml
+  npm run build-complete-dataset -- --local-dir=/mnt/irs-mirror --years=2024
+  npm run build-complete-dataset -- --network-only --ein=123456789
+  npm run build-complete-dataset -- --network-only --ein=123456789,234567891,345678912
+`;
+
+/**
+ * Expand "2022-2024,2026" style lists into numbers
+ */
+function parseNumberList(value: string, label: string, errors: string[]): number[] {
+  const result: number[] = [];
+
+  for (const part of value.split(',').map(p => p.trim()).filter(Boolean)) {
+    const range = part.match(/^(\d+)\s*-\s*(\d+)$/);
+    if (range) {
+      const start = parseInt(range[1], 10);
+      const end = parseInt(range[2], 10);
+      if (start > end) {
+        errors.push(`${label}: range "${part}" is backwards`);
+        continue;
+      }
+      for (let n = start; n <= end; n++) result.push(n);
+    } else if (/^\d+$/.test(part)) {
+      result.push(parseInt(part, 10));
+    } else {
+      errors.push(`${label}: "${part}" is not a number or range`);
+    }
+  }
+
+  return result;
+}
+
+function splitList(value: string): string[] {
+  return value.split(',').map(part => part.trim()).filter(Boolean);
+}
+
+function parseFraction(value: string, label: string, errors: string[]): number | undefined {
+  if (!/^(0(\.\d+)?|1(\.0*)?|\.\d+)$/.test(value.trim())) {
+    errors.push(`${label}: expected a number between 0 and 1, got "${value}"`);
+    return undefined;
+  }
+  return parseFloat(value);
+}
+
+function parseInteger(value: string, label: string, errors: string[]): number | undefined {
+  if (!/^\d+$/.test(value.trim())) {
+    errors.push(`${label}: expected a whole number, got "${value}"`);
+    return undefined;
+  }
+  return parseInt(value, 10);
+}
+
+/**
+ * Read a --config file and coerce it into a partial BuildConfig
+ */
+function loadConfigFile(filePath: string, errors: string[]): Partial<BuildConfig> {
+  const resolved = path.resolve(filePath);
+  if (!fs.existsSync(resolved)) {
+    errors.push(`--config: file not found: ${resolved}`);
+    return {};
+  }
+
+  let raw: unknown;
+  try {
+    const text = fs.readFileSync(resolved, 'utf-8');
+    raw = /\.ya?ml$/i.test(resolved) ? YAML.parse(text) : JSON.parse(text);
+  } catch (error: any) {
+    errors.push(`--config: could not parse ${resolved}: ${error.message}`);
+    return {};
+  }
+
+  if (raw === null || raw === undefined) return {};
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    errors.push(`--config: ${resolved} must contain an object of options`);
+    return {};
+  }
+
+  const fileConfig: Record<string, any> = { ...raw };
+  for (const key of Object.keys(fileConfig)) {
+    if (!(key in DEFAULT_CONFIG)) {
+      errors.push(`--config: unknown option "${key}" in ${resolved}`);
+      delete fileConfig[key];
+    }
+  }
+
+  // Relative paths in a config file are relative to the file, not the cwd
+  const baseDir = path.dirname(resolved);
+  for (const key of [...PATH_KEYS, 'localDir', 'bmfDir', 'revocationListPath', 'pub78Path', 'masterListPath'] as const) {
+    if (typeof fileConfig[key] === 'string') {
+      fileConfig[key] = path.resolve(baseDir, fileConfig[key]);
+    }
+  }
+
+  // Allow the same "2022-2025" shorthand the CLI accepts
+  for (const key of ['years', 'months'] as const) {
+    if (typeof fileConfig[key] === 'string' || typeof fileConfig[key] === 'number') {
+      fileConfig[key] = parseNumberList(String(fileConfig[key]), `${key} (config)`, errors);
+    }
+  }
+  // One EIN or a comma-separated list is accepted as well as a list
+  if (typeof fileConfig.ein === 'number' || typeof fileConfig.ein === 'string') {
+    fileConfig.ein = splitList(String(fileConfig.ein));
+  } else if (Array.isArray(fileConfig.ein)) {
+    fileConfig.ein = fileConfig.ein.map(String);
+  }
+
+  return fileConfig as Partial<BuildConfig>;
+}
+
+/**
+ * Check a fully merged config and return every problem found
+ */
+function validateConfig(config: BuildConfig): string[] {
+  const errors: string[] = [];
+  const currentYear = new Date().getFullYear();
+  const isWholeNumberArray = (value: unknown) =>
+    Array.isArray(value) && value.every(n => Number.isInteger(n));
+
+  if (!isWholeNumberArray(config.years) || config.years.length === 0) {
+    errors.push('years: must be a non-empty list of years');
+  } else {
+    // IRS e-file XML bulk data starts in 2019
+    const badYears = config.years.filter(y => y < 2019 || y > currentYear + 1);
+    if (badYears.length > 0) {
+      errors.push(`years: ${badYears.join(', ')} outside the IRS bulk XML range (2019-${currentYear + 1})`);
+    }
+  }
+
+  if (config.months !== null) {
+    if (!isWholeNumberArray(config.months) || config.months.length === 0) {
+      errors.push('months: must be a non-empty list of months or null for all');
+    } else if (config.months.some(m => m < 1 || m > 12)) {
+      errors.push(`months: ${config.months.filter(m => m < 1 || m > 12).join(', ')} not between 1 and 12`);
+    }
+  }
+
+  for (const key of ['testLimit', 'concurrency', 'batchSize', 'workerMemoryMb'] as const) {
+    if (!Number.isInteger(config[key]) || config[key] < 1) {
+      errors.push(`${key}: must be a positive whole number, got ${JSON.stringify(config[key])}`);
+    }
+  }
+
+  if (!Number.isInteger(config.workers) || config.workers < 0) {
+    errors.push(`workers: must be a whole number (0 to parse on the main thread), got ${JSON.stringify(config.workers)}`);
+  }
+
+  for (const key of ['testMode', 'process990', 'forceReprocess', 'offline', 'networkOnly', 'includeCofunderFunders'] as const) {
+    if (typeof config[key] !== 'boolean') {
+      errors.push(`${key}: must be true or false, got ${JSON.stringify(config[key])}`);
+    }
+  }
+
+  if (config.ein !== null) {
+    if (!Array.isArray(config.ein) || config.ein.length === 0 || config.ein.length > MAX_CENTRAL_FUNDERS) {
+      errors.push(`ein: must be a list of 1 to ${MAX_CENTRAL_FUNDERS} EINs`);
+    } else {
+      const seen = new Set<string>();
+      for (const ein of config.ein) {
+        const digits = String(ein).replace(/[^0-9]/g, '');
+        if (digits.length !== 9) {
+          errors.push(`ein: "${ein}" is not a 9-digit EIN`);
+        } else if (seen.has(digits)) {
+          errors.push(`ein: ${ein} is listed twice`);
+        }
+        seen.add(digits);
+      }
+      if (config.ein.length > 1 && config.centralName !== null) {
+        errors.push('centralName: only applies to a single central funder');
+      }
+    }
+  }
+
+  for (const key of PATH_KEYS) {
+    if (typeof config[key] !== 'string' || config[key].trim() === '') {
+      errors.push(`${key}: must be a path`);
+    }
+  }
+
+  for (const key of ['matchThreshold', 'matchMargin'] as const) {
+    if (typeof config[key] !== 'number' || !(config[key] >= 0 && config[key] <= 1)) {
+      errors.push(`${key}: must be a number between 0 and 1, got ${JSON.stringify(config[key])}`);
+    }
+  }
+
+  if (config.networkDepth !== 1 && config.networkDepth !== 2) {
+    errors.push(`networkDepth: must be 1 or 2, got ${JSON.stringify(config.networkDepth)}`);
+  } else if (config.includeCofunderFunders && config.networkDepth < 2) {
+    errors.push('includeCofunderFunders: needs networkDepth 2');
+  }
+  if (!Number.isInteger(config.expansionMinOverlap) || config.expansionMinOverlap < 1) {
+    errors.push(`expansionMinOverlap: must be a positive whole number, got ${JSON.stringify(config.expansionMinOverlap)}`);
+  }
+  if (typeof config.expansionMinAmount !== 'number' || !(config.expansionMinAmount >= 0)) {
+    errors.push(`expansionMinAmount: must be a dollar amount of 0 or more, got ${JSON.stringify(config.expansionMinAmount)}`);
+  }
+
+  if (config.xmlParser !== 'stream' && config.xmlParser !== 'xml2js') {
+    errors.push(`xmlParser: must be "stream" or "xml2js", got ${JSON.stringify(config.xmlParser)}`);
+  }
+
+  if (!['json', 'sqlite', 'both'].includes(config.datasetFormat)) {
+    errors.push(`datasetFormat: must be "json", "sqlite" or "both", got ${JSON.stringify(config.datasetFormat)}`);
+  }
+
+  if (config.networkOnly && !fs.existsSync(config.databasePath)) {
+    errors.push(`database: SQLite dataset not found: ${config.databasePath} (build it first with --dataset-format=sqlite)`);
+  }
+
+  if (config.bmfDir !== null) {
+    if (!fs.existsSync(config.bmfDir) || !fs.statSync(config.bmfDir).isDirectory()) {
+      errors.push(`bmfDir: directory does not exist: ${config.bmfDir}`);
+    } else if (!fs.readdirSync(config.bmfDir).some(f => f.toLowerCase().endsWith('.csv'))) {
+      errors.push(`bmfDir: no EO BMF CSV files in ${config.bmfDir}`);
+    }
+  }
+
+  for (const [key, file] of [['revocationList', config.revocationListPath], ['pub78', config.pub78Path]] as const) {
+    if (file !== null && (!fs.existsSync(file) || !fs.statSync(file).isFile())) {
+      errors.push(`${key}: file does not exist: ${file}`);
+    }
+  }
+
+  if (!fs.existsSync(config.overridesPath)) {
+    errors.push(`overrides: grantee overrides file not found: ${config.overridesPath}`);
+  }
+
+  if (config.offline && config.forceReprocess && config.source === 'irs') {
+    errors.push('offline: months cannot be reprocessed without downloading them (drop forceReprocess, or use a local mirror)');
+  }
+
+  if (config.source !== 'irs' && config.source !== 'local') {
+    errors.push(`source: must be "irs" or "local", got ${JSON.stringify(config.source)}`);
+  } else if (config.source === 'local') {
+    if (!config.localDir) {
+      errors.push('localDir: required when source is "local" (pass --local-dir=<dir>)');
+    } else if (!fs.existsSync(config.localDir) || !fs.statSync(config.localDir).isDirectory()) {
+      errors.push(`localDir: directory does not exist: ${config.localDir}`);
+    }
+  }
+
+  const outputDirs: Array<[string, string]> = [['networkOutput', path.dirname(config.networkOutputPath)]];
+  if (!config.networkOnly) {
+    if (config.datasetFormat !== 'sqlite') outputDirs.push(['output', path.dirname(config.outputPath)]);
+    if (config.datasetFormat !== 'json') outputDirs.push(['database', path.dirname(config.databasePath)]);
+  }
+  for (const [label, dir] of outputDirs) {
+    if (typeof dir === 'string' && !fs.existsSync(dir)) {
+      errors.push(`${label}: directory does not exist: ${dir}`);
+    }
+  }
+
+  if (config.centralName !== null && (typeof config.centralName !== 'string' || config.centralName.trim() === '')) {
+    errors.push('centralName: must be a name or null');
+  }
+
+  if (config.masterListPath !== null) {
+    if (typeof config.masterListPath !== 'string' || config.masterListPath.trim() === '') {
+      errors.push('masterListPath: must be a path or null');
+    } else if (!fs.existsSync(config.masterListPath)) {
+      errors.push(`masterList: grants list not found: ${config.masterListPath} (pass --ein=<ein> to build from IRS returns without it)`);
+    }
+    if (!fs.existsSync(config.grantsListMappingPath)) {
+      errors.push(`grantsListMapping: grants list mapping not found: ${config.grantsListMappingPath}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Resolve the run configuration from defaults, --config and CLI flags.
+ * Throws with every validation problem listed if the result is unusable.
+ */
+export function loadBuildConfig(argv: string[]): BuildConfig & { help: boolean } {
+  const errors: string[] = [];
+
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      strict: true,
+      allowPositionals: false,
+      options: {
+        'config': { type: 'string' },
+        'years': { type: 'string' },
+        'months': { type: 'string' },
+        'test-limit': { type: 'string' },
+        'skip-990': { type: 'boolean' },
+        'concurrency': { type: 'string' },
+        'batch-size': { type: 'string' },
+        'workers': { type: 'string' },
+        'worker-memory': { type: 'string' },
+        'xml-parser': { type: 'string' },
+        'force-reprocess': { type: 'boolean' },
+        'offline': { type: 'boolean' },
+        'ein': { type: 'string' },
+        'central-name': { type: 'string' },
+        'source': { type: 'string' },
+        'local-dir': { type: 'string' },
+        'data-dir': { type: 'string' },
+        'cache-dir': { type: 'string' },
+        'output': { type: 'string' },
+        'dataset-format': { type: 'string' },
+        'database': { type: 'string' },
+        'network-only': { type: 'boolean' },
+        'match-threshold': { type: 'string' },
+        'match-margin': { type: 'string' },
+        'overrides': { type: 'string' },
+        'bmf-dir': { type: 'string' },
+        'revocation-list': { type: 'string' },
+        'pub78': { type: 'string' },
+        'depth': { type: 'string' },
+        'cofunder-funders': { type: 'boolean' },
+        'min-overlap': { type: 'string' },
+        'min-amount': { type: 'string' },
+        'network-output': { type: 'string' },
+        'master-list': { type: 'string' },
+        'grants-list-mapping': { type: 'string' },
+        'help': { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error: any) {
+    throw new Error(`${error.message}\n${USAGE}`);
+  }
+
+  const { values } = parsed;
+  if (values.help) {
+    return { ...DEFAULT_CONFIG, help: true };
+  }
+
+  const fileConfig = values.config ? loadConfigFile(values.config, errors) : {};
+  const config: BuildConfig = { ...DEFAULT_CONFIG, ...fileConfig };
+
+  if (values.years !== undefined) config.years = parseNumberList(values.years, '--years', errors);
+  if (values.months !== undefined) config.months = parseNumberList(values.months, '--months', errors);
+  if (values['test-limit'] !== undefined) {
+    const limit = parseInteger(values['test-limit'], '--test-limit', errors);
+    if (limit !== undefined) {
+      config.testLimit = limit;
+      config.testMode = true;
+    }
+  }
+  if (values['skip-990']) config.process990 = false;
+  if (values['force-reprocess']) config.forceReprocess = true;
+  if (values.offline) config.offline = true;
+  if (values.concurrency !== undefined) {
+    config.concurrency = parseInteger(values.concurrency, '--concurrency', errors) ?? config.concurrency;
+  }
+  if (values['batch-size'] !== undefined) {
+    config.batchSize = parseInteger(values['batch-size'], '--batch-size', errors) ?? config.batchSize;
+  }
+  if (values.workers !== undefined) {
+    config.workers = parseInteger(values.workers, '--workers', errors) ?? config.workers;
+  }
+  if (values['worker-memory'] !== undefined) {
+    config.workerMemoryMb = parseInteger(values['worker-memory'], '--worker-memory', errors) ?? config.workerMemoryMb;
+  }
+  if (values['xml-parser'] !== undefined) config.xmlParser = values['xml-parser'] as BuildConfig['xmlParser'];
+  if (values.ein !== undefined) config.ein = splitList(values.ein);
+  if (values['central-name'] !== undefined) config.centralName = values['central-name'];
+  if (values['local-dir'] !== undefined) {
+    config.localDir = path.resolve(values['local-dir']);
+    config.source = 'local';
+  }
+  if (values.source !== undefined) config.source = values.source as BuildConfig['source'];
+  if (values['data-dir'] !== undefined) config.dataDir = path.resolve(values['data-dir']);
+  if (values['cache-dir'] !== undefined) config.cacheDir = path.resolve(values['cache-dir']);
+  if (values.output !== undefined) config.outputPath = path.resolve(values.output);
+  if (values['dataset-format'] !== undefined) config.datasetFormat = values['dataset-format'] as BuildConfig['datasetFormat'];
+  if (values.database !== undefined) config.databasePath = path.resolve(values.database);
+  if (values['network-only']) config.networkOnly = true;
+  if (values['match-threshold'] !== undefined) {
+    config.matchThreshold = parseFraction(values['match-threshold'], '--match-threshold', errors) ?? config.matchThreshold;
+  }
+  if (values['match-margin'] !== undefined) {
+    config.matchMargin = parseFraction(values['match-margin'], '--match-margin', errors) ?? config.matchMargin;
+  }
+  if (values.overrides !== undefined) config.overridesPath = path.resolve(values.overrides);
+  if (values['bmf-dir'] !== undefined) config.bmfDir = path.resolve(values['bmf-dir']);
+  if (values['revocation-list'] !== undefined) config.revocationListPath = path.resolve(values['revocation-list']);
+  if (values.pub78 !== undefined) config.pub78Path = path.resolve(values.pub78);
+  if (values.depth !== undefined) config.networkDepth = parseInteger(values.depth, '--depth', errors) ?? config.networkDepth;
+  if (values['cofunder-funders']) config.includeCofunderFunders = true;
+  if (values['min-overlap'] !== undefined) {
+    config.expansionMinOverlap = parseInteger(values['min-overlap'], '--min-overlap', errors) ?? config.expansionMinOverlap;
+  }
+  if (values['min-amount'] !== undefined) {
+    config.expansionMinAmount = parseInteger(values['min-amount'], '--min-amount', errors) ?? config.expansionMinAmount;
+  }
+  if (values['network-output'] !== undefined) config.networkOutputPath = path.resolve(values['network-output']);
+  if (values['master-list'] !== undefined) {
+    config.masterListPath = path.resolve(values['master-list']);
+  } else if (config.ein !== null && !('masterListPath' in fileConfig)) {
+    config.masterListPath = null; // The default list is HLF's
+  }
+  if (values['grants-list-mapping'] !== undefined) config.grantsListMappingPath = path.resolve(values['grants-list-mapping']);
+
+  if (errors.length === 0) {
+    errors.push(...validateConfig(config));
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration:\n${errors.map(e => `  - ${e}`).join('\n')}\n${USAGE}`);
+  }
+
+  if (config.ein !== null) {
+    config.ein = config.ein.map(ein => ein.replace(/[^0-9]/g, ''));
+  }
+  config.years = [...new Set(config.years)].sort((a, b) => a - b);
+  if (config.months) {
+    config.months = [...new Set(config.months)].sort((a, b) => a - b);
+  }
+
+  return { ...config, help: false };
+}
@@ -0,0 +1,258 @@
+/**
+ * Build manifest for incremental rebuilds.
+ *
+ * Records, for every monthly archive that has been processed, where it came
+ * from, what it looked like (size, modification date, checksum), which parser
+ * version read it and where its parsed output is cached. A rerun compares the
+ * current archive against its entry and only reprocesses months that are new,
+ * changed, or were parsed by an older parser version.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import type { LocalMonthSource } from './local-mirror';
+import type { SchemaSummary } from './irs-schema';
+import type { FilingIssue } from './quarantine';
+
+const MANIFEST_FILE = 'manifest.json';
+const MANIFEST_VERSION = 1;
+
+// Month caches written before the manifest existed came from parser version 1
+const LEGACY_CACHE_PARSER_VERSION = 1;
+
+/**
+ * What we know about an archive before (or without) parsing it
+ */
+export interface ArchiveInfo {
+  source: string; // URL or local path
+  size: number | null;
+  lastModified: string | null;
+  etag: string | null;
+  checksum: string | null; // sha256 of the archive, or of the file listing for directories
+}
+
+export interface ManifestEntry extends ArchiveInfo {
+  year: number;
+  month: number;
+  parserVersion: number;
+  process990: boolean;
+  testLimit: number | null; // null = every file in the archive was processed
+  cachePath: string;
+  orgCachePath: string | null;
+  processedAt: string;
+  filings: { pf: number; org: number } | null;
+  schema?: SchemaSummary; // Schema versions and empty expected fields seen in this month's returns
+  issues?: FilingIssue[]; // Filings that failed to parse or look wrong (see quarantine.ts)
+  workerFailures?: number; // Files a parser worker crashed or ran out of memory on; the cache is incomplete
+}
+
+export interface BuildManifest {
+  version: number;
+  entries: Record<string, ManifestEntry>;
+}
+
+/**
+ * The settings a cached month must have been built with to be reused
+ */
+export interface RunRequirements {
+  parserVersion: number;
+  process990: boolean;
+  testLimit: number | null;
+}
+
+export type MonthDecision =
+  | { reuse: true; reason: string }
+  | { reuse: false; reason: string };
+
+export function monthKey(year: number, month: number): string {
+  return `${year}_month_${month}`;
+}
+
+export function loadManifest(cacheDir: string): BuildManifest {
+  const manifestPath = path.join(cacheDir, MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) {
+    return { version: MANIFEST_VERSION, entries: {} };
+  }
+
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as BuildManifest;
+  if (manifest.version !== MANIFEST_VERSION) {
+    console.warn(`⚠️  Ignoring build manifest with unsupported version ${manifest.version}`);
+    return { version: MANIFEST_VERSION, entries: {} };
+  }
+  return manifest;
+}
+
+/**
+ * Write the manifest atomically so an interrupted run never leaves it half-written
+ */
+export function saveManifest(cacheDir: string, manifest: BuildManifest): void {
+  const manifestPath = path.join(cacheDir, MANIFEST_FILE);
+  const tempPath = `${manifestPath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(manifest, null, 2));
+  fs.renameSync(tempPath, manifestPath);
+}
+
+/**
+ * Create an entry for a month cache written before the manifest existed,
+ * trusting that it matches the archive as it is today
+ */
+export function adoptLegacyCache(
+  year: number,
+  month: number,
+  archive: ArchiveInfo,
+  cachePath: string,
+  orgCachePath: string
+): ManifestEntry {
+  const hasOrgCache = fs.existsSync(orgCachePath);
+  return {
+    ...archive,
+    year,
+    month,
+    parserVersion: LEGACY_CACHE_PARSER_VERSION,
+    process990: hasOrgCache,
+    testLimit: null,
+    cachePath,
+    orgCachePath: hasOrgCache ? orgCachePath : null,
+    processedAt: fs.statSync(cachePath).mtime.toISOString(),
+    filings: null // Unknown
+  };
+}
+
+function cachesExist(entry: ManifestEntry): boolean {
+  return fs.existsSync(entry.cachePath) &&
+    (entry.orgCachePath === null || fs.existsSync(entry.orgCachePath));
+}
+
+/**
+ * Whether an entry's cached output was built with settings at least as complete as this run's
+ */
+function checkRequirements(entry: ManifestEntry, requirements: RunRequirements): string | null {
+  if (entry.parserVersion < requirements.parserVersion) {
+    return `parsed by parser v${entry.parserVersion}, current is v${requirements.parserVersion}`;
+  }
+  if (entry.workerFailures) {
+    return `${entry.workerFailures} files failed in a parser worker`;
+  }
+  if (requirements.process990 && (!entry.process990 || entry.orgCachePath === null)) {
+    return 'cached without Form 990 data';
+  }
+  // A full cache satisfies any run; a test-mode cache only satisfies the same test limit
+  if (entry.testLimit !== null && entry.testLimit !== requirements.testLimit) {
+    return `cached from a test run (limit ${entry.testLimit})`;
+  }
+  if (!cachesExist(entry)) {
+    return 'cache files missing';
+  }
+  return null;
+}
+
+/**
+ * Decide from archive metadata alone whether a month's cache can be reused
+ */
+export function checkMonth(
+  entry: ManifestEntry | undefined,
+  archive: ArchiveInfo,
+  requirements: RunRequirements
+): MonthDecision {
+  if (!entry) {
+    return { reuse: false, reason: 'new month' };
+  }
+
+  const stale = checkRequirements(entry, requirements);
+  if (stale) {
+    return { reuse: false, reason: stale };
+  }
+
+  if (archive.checksum && entry.checksum) {
+    return archive.checksum === entry.checksum
+      ? { reuse: true, reason: 'checksum unchanged' }
+      : { reuse: false, reason: 'archive checksum changed' };
+  }
+
+  if (archive.etag && entry.etag && archive.etag !== entry.etag) {
+    return { reuse: false, reason: 'archive ETag changed' };
+  }
+  if (archive.size !== null && entry.size !== null && archive.size !== entry.size) {
+    return { reuse: false, reason: `archive size changed (${entry.size} → ${archive.size} bytes)` };
+  }
+  if (archive.lastModified && entry.lastModified && archive.lastModified !== entry.lastModified) {
+    return { reuse: false, reason: `archive modified ${archive.lastModified}` };
+  }
+
+  return { reuse: true, reason: 'archive unchanged' };
+}
+
+/**
+ * Decide whether a month's cache can stand in for its archive when the archive
+ * can't be described or downloaded (offline, or the IRS did not answer). Any
+ * cache beats dropping the month, so an outdated one is reused too, with the
+ * reason it would otherwise be reprocessed.
+ */
+export function checkCachedMonth(entry: ManifestEntry | undefined, requirements: RunRequirements): MonthDecision {
+  if (!entry || !cachesExist(entry)) {
+    return { reuse: false, reason: 'no cache' };
+  }
+  const stale = checkRequirements(entry, requirements);
+  return { reuse: true, reason: stale ? `archive not checked, cache is outdated: ${stale}` : 'archive not checked' };
+}
+
+/**
+ * Whether a freshly downloaded archive is byte-identical to the one already cached,
+ * in which case parsing can be skipped even though its metadata changed
+ */
+export function isSameArchive(entry: ManifestEntry | undefined, checksum: string, requirements: RunRequirements): boolean {
+  return !!entry && entry.checksum === checksum && checkRequirements(entry, requirements) === null;
+}
+
+export function sha256File(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('error', reject)
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
+
+/**
+ * Describe a month in a local mirror. ZIPs are checksummed; directories get a
+ * checksum of their file listing (names, sizes and modification times).
+ */
+export async function describeLocalSource(source: LocalMonthSource): Promise<ArchiveInfo> {
+  const stats = fs.statSync(source.path);
+
+  if (source.kind === 'zip') {
+    return {
+      source: source.path,
+      size: stats.size,
+      lastModified: stats.mtime.toISOString(),
+      etag: null,
+      checksum: await sha256File(source.path)
+    };
+  }
+
+  const hash = createHash('sha256');
+  let totalSize = 0;
+  const walk = (dir: string) => {
+    for (const name of fs.readdirSync(dir).sort()) {
+      const fullPath = path.join(dir, name);
+      const fileStats = fs.statSync(fullPath);
+      if (fileStats.isDirectory()) {
+        walk(fullPath);
+      } else {
+        totalSize += fileStats.size;
+        hash.update(`${path.relative(source.path, fullPath)}\0${fileStats.size}\0${fileStats.mtimeMs}\n`);
+      }
+    }
+  };
+  walk(source.path);
+
+  return {
+    source: source.path,
+    size: totalSize,
+    lastModified: stats.mtime.toISOString(),
+    etag: null,
+    checksum: hash.digest('hex')
+  };
+}
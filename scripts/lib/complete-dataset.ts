@@ -0,0 +1,119 @@
+/**
+ * The complete bidirectional grants dataset: every foundation with the grants
+ * it gave, and every recipient organization with the grants it received.
+ *
+ * The network builders only read the dataset through a DatasetView, so the
+ * same code runs against the in-memory dataset of a build or against a
+ * SQLite database written by an earlier one (see dataset-db.ts).
+ */
+
+import type { ExemptClassification } from './eo-bmf';
+import type { ExemptStatus } from './exempt-status';
+import type { ScoredCandidate } from './entity-resolution';
+import type { Grant, Person } from './irs-xml';
+
+export interface Foundation {
+  ein: string;
+  name: string;
+  grantsGiven: Grant[];
+  commitmentsMade?: Grant[]; // Grants approved for future payment
+  people?: Person[]; // Officers, directors and trustees from the latest filing
+  metadata?: {
+    address?: string;
+    city?: string;
+    state?: string;
+    assets?: number;
+    revenue?: number;
+  } & ExemptClassification & Partial<ExemptStatus>; // EO BMF classification and revocation/Pub 78 status, when the build had them
+}
+
+export interface ReceivedGrant {
+  funderEIN: string;
+  funderName: string;
+  amount: number;
+  year: number; // Calendar year
+  fiscalYear?: number; // Year the funder's tax period ended (IRS filings only)
+  taxPeriodBegin?: string;
+  taxPeriodEnd?: string;
+  purpose?: string;
+  recipientRelationship?: string;
+  recipientFoundationStatus?: string;
+  ircSection?: string;
+}
+
+export interface Organization {
+  ein: string;
+  name: string;
+  grantsReceived: ReceivedGrant[];
+  commitmentsReceived?: ReceivedGrant[]; // Grants approved for future payment
+  people?: Person[]; // Officers, directors and trustees from the latest filing
+  metadata?: {
+    address?: string;
+    city?: string;
+    state?: string;
+  } & ExemptClassification & Partial<ExemptStatus>;
+}
+
+export interface CompleteDataset {
+  foundations: Record<string, Foundation>;
+  organizations: Record<string, Organization>;
+  // no_ein_ placeholders and duplicate EINs merged into a real EIN, with the match behind it (not written to the JSON)
+  recipientAliases: Record<string, ScoredCandidate>;
+  metadata: {
+    foundationsProcessed: number;
+    totalGrants: number;
+    totalCommitments: number;
+    generatedAt: string;
+  };
+}
+
+/**
+ * Read access to a complete dataset, wherever it is stored
+ */
+export interface DatasetView {
+  foundation(ein: string): Foundation | undefined;
+  organization(ein: string): Organization | undefined;
+  // Officers and directors of a foundation, or else of an organization
+  people(ein: string): Person[] | undefined;
+  // [key, name] of every organization, in dataset order
+  organizationNames(): Iterable<[string, string]>;
+  // The organization a recipient key was merged into, or the key itself
+  resolveKey(key: string): string;
+}
+
+/**
+ * Normalize organization name for fuzzy matching
+ */
+export function normalizeOrgName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\b(inc|incorporated|llc|ltd|limited|corp|corporation|foundation|fund|trust|the|a|an)\b/g, '')
+    .replace(/[^a-z0-9]+/g, '')
+    .trim();
+}
+
+/**
+ * The organization key a grant is filed under: the recipient's EIN, or a
+ * no_ein_ placeholder built from its normalized name when the return has none
+ */
+export function recipientKey(grant: Grant): string {
+  const ein = grant.recipientEIN;
+  if (!ein || ein === '' || ein.startsWith('unknown_')) {
+    return `no_ein_${normalizeOrgName(grant.recipientName)}`;
+  }
+  return ein;
+}
+
+export function inMemoryDatasetView(dataset: CompleteDataset): DatasetView {
+  return {
+    foundation: ein => dataset.foundations[ein],
+    organization: ein => dataset.organizations[ein],
+    people: ein => dataset.foundations[ein]?.people || dataset.organizations[ein]?.people,
+    resolveKey: key => dataset.recipientAliases[key]?.key ?? key,
+    *organizationNames() {
+      for (const [ein, org] of Object.entries(dataset.organizations)) {
+        yield [ein, org.name];
+      }
+    }
+  };
+}
@@ -0,0 +1,387 @@
+/**
+ * SQLite storage for the complete grants dataset.
+ *
+ * The JSON dataset has to be loaded whole (over a gigabyte for a full build)
+ * before anything can be asked of it. The database holds the same data in
+ * indexed tables, so "all grants to EIN X" is a single lookup:
+ *
+ *   foundations    one row per funder (990-PF, or 990 with Schedule I grants)
+ *   organizations  one row per recipient key: an EIN, or a no_ein_ placeholder
+ *   grants         one row per grant or commitment, as filed, with the funder and
+ *                  the organization it was credited to (recipient_key)
+ *   filings        every return read, including those replaced by an amended or
+ *                  later return (superseded_by)
+ *   recipient_aliases  no_ein_ placeholders and duplicate EINs merged into a real
+ *                  EIN, with the match score and evidence (see entity-resolution.ts
+ *                  and grantee-overrides.ts)
+ *   dataset_info   build metadata (counts, generation time)
+ *
+ * openDatasetDb() returns a DatasetView, so the network builders can read a
+ * database written by an earlier build without reprocessing IRS data.
+ */
+
+import * as fs from 'fs';
+import Database from 'better-sqlite3';
+import { recipientKey, type CompleteDataset, type DatasetView, type Foundation, type Organization, type ReceivedGrant } from './complete-dataset';
+import type { FilingSummary, SupersededFiling } from './filing-dedupe';
+import type { FoundationFiling, Grant } from './irs-xml';
+
+// Bump when the tables change; older databases are refused rather than misread
+const DATASET_DB_VERSION = 3;
+
+const SCHEMA = `
+  CREATE TABLE foundations (
+    ein TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    city TEXT,
+    state TEXT,
+    assets REAL,
+    revenue REAL,
+    metadata TEXT, -- JSON
+    people TEXT -- JSON
+  );
+
+  CREATE TABLE organizations (
+    ein TEXT PRIMARY KEY, -- EIN or no_ein_ placeholder
+    name TEXT NOT NULL,
+    city TEXT,
+    state TEXT,
+    metadata TEXT, -- JSON
+    people TEXT -- JSON
+  );
+
+  CREATE TABLE grants (
+    id INTEGER PRIMARY KEY,
+    funder_ein TEXT NOT NULL,
+    funder_name TEXT NOT NULL,
+    recipient_key TEXT NOT NULL, -- organizations.ein the grant is credited to
+    recipient_ein TEXT, -- As filed
+    recipient_name TEXT NOT NULL,
+    recipient_city TEXT,
+    recipient_state TEXT,
+    recipient_zip TEXT,
+    amount REAL NOT NULL,
+    year INTEGER NOT NULL, -- Calendar year
+    fiscal_year INTEGER,
+    tax_period_begin TEXT,
+    tax_period_end TEXT,
+    purpose TEXT,
+    recipient_relationship TEXT,
+    recipient_foundation_status TEXT,
+    irc_section TEXT,
+    committed INTEGER NOT NULL DEFAULT 0, -- 1 = approved for future payment
+    merge_order INTEGER NOT NULL DEFAULT 0 -- 0 = filed under recipient_key, else the recipient_aliases row it came in by
+  );
+
+  CREATE TABLE filings (
+    object_id TEXT NOT NULL,
+    ein TEXT NOT NULL,
+    name TEXT,
+    return_type TEXT NOT NULL,
+    return_version TEXT,
+    tax_period_begin TEXT,
+    tax_period_end TEXT,
+    return_timestamp TEXT,
+    amended INTEGER NOT NULL,
+    grants INTEGER NOT NULL,
+    superseded_by TEXT, -- object_id of the return that replaced this one
+    superseded_reason TEXT
+  );
+
+  CREATE TABLE recipient_aliases (
+    alias TEXT PRIMARY KEY, -- no_ein_ placeholder
+    ein TEXT NOT NULL,
+    score REAL NOT NULL,
+    evidence TEXT NOT NULL -- JSON
+  );
+
+  CREATE TABLE dataset_info (
+    key TEXT PRIMARY KEY,
+    value TEXT -- JSON
+  );
+`;
+
+const INDEXES = `
+  CREATE INDEX grants_funder ON grants (funder_ein);
+  CREATE INDEX grants_recipient ON grants (recipient_key);
+  CREATE INDEX grants_recipient_ein ON grants (recipient_ein);
+  CREATE INDEX grants_year ON grants (year);
+  CREATE INDEX organizations_name ON organizations (name);
+  CREATE INDEX filings_ein ON filings (ein);
+`;
+
+export interface DatasetFilings {
+  kept: FilingSummary[];
+  superseded: SupersededFiling[];
+}
+
+interface GrantRow {
+  funder_ein: string;
+  funder_name: string;
+  recipient_ein: string | null;
+  recipient_name: string;
+  recipient_city: string | null;
+  recipient_state: string | null;
+  recipient_zip: string | null;
+  amount: number;
+  year: number;
+  fiscal_year: number | null;
+  tax_period_begin: string | null;
+  tax_period_end: string | null;
+  purpose: string | null;
+  recipient_relationship: string | null;
+  recipient_foundation_status: string | null;
+  irc_section: string | null;
+  committed: number;
+}
+
+const toJson = (value: unknown) => value === undefined ? null : JSON.stringify(value);
+const fromJson = (text: string | null) => text === null ? undefined : JSON.parse(text);
+
+/**
+ * Copy only the columns that are set, so rows read back as the objects that were written
+ */
+function withoutNulls<T extends object>(entries: Array<[keyof T, unknown]>): T {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of entries) {
+    if (value !== null) result[key as string] = value;
+  }
+  return result as T;
+}
+
+function grantFromRow(row: GrantRow): Grant {
+  return withoutNulls<Grant>([
+    ['recipientEIN', row.recipient_ein ?? ''],
+    ['recipientName', row.recipient_name],
+    ['amount', row.amount],
+    ['year', row.year],
+    ['taxPeriodBegin', row.tax_period_begin],
+    ['taxPeriodEnd', row.tax_period_end],
+    ['calendarYear', row.year],
+    ['fiscalYear', row.fiscal_year],
+    ['recipientCity', row.recipient_city],
+    ['recipientState', row.recipient_state],
+    ['recipientZip', row.recipient_zip],
+    ['purpose', row.purpose],
+    ['recipientRelationship', row.recipient_relationship],
+    ['recipientFoundationStatus', row.recipient_foundation_status],
+    ['ircSection', row.irc_section]
+  ]);
+}
+
+function receivedGrantFromRow(row: GrantRow): ReceivedGrant {
+  return withoutNulls<ReceivedGrant>([
+    ['funderEIN', row.funder_ein],
+    ['funderName', row.funder_name],
+    ['amount', row.amount],
+    ['year', row.year],
+    ['fiscalYear', row.fiscal_year],
+    ['taxPeriodBegin', row.tax_period_begin],
+    ['taxPeriodEnd', row.tax_period_end],
+    ['purpose', row.purpose],
+    ['recipientRelationship', row.recipient_relationship],
+    ['recipientFoundationStatus', row.recipient_foundation_status],
+    ['ircSection', row.irc_section]
+  ]);
+}
+
+/**
+ * Write the dataset to a SQLite database. Grants are taken from the filings the
+ * dataset was built from, so each row keeps the funder name as filed that year;
+ * recipientAliases sends grants to placeholders that were merged to the real EIN.
+ * The database is built under a temporary name and renamed when complete.
+ */
+export function writeDatasetDb(
+  filePath: string,
+  dataset: CompleteDataset,
+  grantFilings: FoundationFiling[],
+  filings: DatasetFilings
+): void {
+  console.log(`\n🗄️  Writing dataset to SQLite database ${filePath}...`);
+  const tempPath = `${filePath}.tmp`;
+  fs.rmSync(tempPath, { force: true });
+
+  const db = new Database(tempPath);
+  try {
+    // Nothing reads the database until it is renamed into place, so skip the journal
+    db.pragma('journal_mode = OFF');
+    db.pragma('synchronous = OFF');
+    db.pragma(`user_version = ${DATASET_DB_VERSION}`);
+    db.exec(SCHEMA);
+
+    const insertFoundation = db.prepare(
+      'INSERT INTO foundations (ein, name, city, state, assets, revenue, metadata, people) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+    );
+    const insertOrganization = db.prepare(
+      'INSERT INTO organizations (ein, name, city, state, metadata, people) VALUES (?, ?, ?, ?, ?, ?)'
+    );
+    const insertGrant = db.prepare(`
+      INSERT INTO grants (
+        funder_ein, funder_name, recipient_key, recipient_ein, recipient_name, recipient_city, recipient_state,
+        recipient_zip, amount, year, fiscal_year, tax_period_begin, tax_period_end, purpose,
+        recipient_relationship, recipient_foundation_status, irc_section, committed, merge_order
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertFiling = db.prepare(`
+      INSERT INTO filings (
+        object_id, ein, name, return_type, return_version, tax_period_begin, tax_period_end,
+        return_timestamp, amended, grants, superseded_by, superseded_reason
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertAlias = db.prepare('INSERT INTO recipient_aliases (alias, ein, score, evidence) VALUES (?, ?, ?, ?)');
+    const insertInfo = db.prepare('INSERT INTO dataset_info (key, value) VALUES (?, ?)');
+
+    // Merged grants were appended to the organization in merge order, after its own
+    const mergeOrder = new Map(Object.keys(dataset.recipientAliases).map((alias, i) => [alias, i + 1]));
+
+    const addGrant = (grant: Grant, funderEIN: string, funderName: string, committed: boolean) => {
+      const key = recipientKey(grant);
+      insertGrant.run(
+        funderEIN, funderName, dataset.recipientAliases[key]?.key ?? key, grant.recipientEIN || null, grant.recipientName,
+        grant.recipientCity ?? null, grant.recipientState ?? null, grant.recipientZip ?? null,
+        grant.amount, grant.year, grant.fiscalYear ?? null, grant.taxPeriodBegin ?? null, grant.taxPeriodEnd ?? null,
+        grant.purpose ?? null, grant.recipientRelationship ?? null, grant.recipientFoundationStatus ?? null,
+        grant.ircSection ?? null, committed ? 1 : 0, mergeOrder.get(key) ?? 0
+      );
+    };
+
+    db.transaction(() => {
+      for (const foundation of Object.values(dataset.foundations)) {
+        const { metadata } = foundation;
+        insertFoundation.run(
+          foundation.ein, foundation.name, metadata?.city ?? null, metadata?.state ?? null,
+          metadata?.assets ?? null, metadata?.revenue ?? null, toJson(metadata), toJson(foundation.people)
+        );
+      }
+
+      for (const org of Object.values(dataset.organizations)) {
+        const { metadata } = org;
+        insertOrganization.run(
+          org.ein, org.name, metadata?.city ?? null, metadata?.state ?? null, toJson(metadata), toJson(org.people)
+        );
+      }
+
+      // Same order as buildBidirectionalDataset, so grants read back in the order they were added
+      for (const { funderEIN, funderName, grants, commitments = [] } of grantFilings) {
+        if (!funderEIN) continue;
+        for (const grant of grants) addGrant(grant, funderEIN, funderName, false);
+        for (const commitment of commitments) addGrant(commitment, funderEIN, funderName, true);
+      }
+
+      for (const { ein, name, filing, grants } of filings.kept) {
+        if (!filing) continue;
+        insertFiling.run(
+          filing.objectId, ein, name, filing.returnType, filing.returnVersion ?? null, filing.taxPeriodBegin ?? null,
+          filing.taxPeriodEnd ?? null, filing.returnTimestamp ?? null, filing.amended ? 1 : 0, grants, null, null
+        );
+      }
+      for (const filing of filings.superseded) {
+        insertFiling.run(
+          filing.objectId, filing.ein, filing.name, filing.returnType, null, null, filing.taxPeriodEnd,
+          filing.returnTimestamp, filing.amended ? 1 : 0, filing.grants, filing.supersededBy.objectId, filing.reason
+        );
+      }
+
+      for (const [alias, match] of Object.entries(dataset.recipientAliases)) {
+        insertAlias.run(alias, match.key, match.score, JSON.stringify(match.evidence));
+      }
+
+      for (const [key, value] of Object.entries(dataset.metadata)) {
+        insertInfo.run(key, JSON.stringify(value));
+      }
+    })();
+
+    db.exec(INDEXES);
+    db.exec('ANALYZE');
+  } finally {
+    db.close();
+  }
+
+  fs.renameSync(tempPath, filePath);
+  console.log('✅ SQLite database complete.');
+}
+
+/**
+ * Open a database written by writeDatasetDb for reading
+ */
+export function openDatasetDb(filePath: string): DatasetView & { metadata: CompleteDataset['metadata']; close(): void } {
+  const db = new Database(filePath, { readonly: true, fileMustExist: true });
+
+  const version = db.pragma('user_version', { simple: true });
+  if (version !== DATASET_DB_VERSION) {
+    db.close();
+    throw new Error(`${filePath} is dataset database version ${version}, expected ${DATASET_DB_VERSION} (rebuild the dataset)`);
+  }
+
+  const selectFoundation = db.prepare('SELECT ein, name, metadata, people FROM foundations WHERE ein = ?');
+  const selectOrganization = db.prepare('SELECT ein, name, metadata, people FROM organizations WHERE ein = ?');
+  const selectFoundationPeople = db.prepare('SELECT people FROM foundations WHERE ein = ?').pluck();
+  const selectOrganizationPeople = db.prepare('SELECT people FROM organizations WHERE ein = ?').pluck();
+  const selectGrantsGiven = db.prepare('SELECT * FROM grants WHERE funder_ein = ? ORDER BY id');
+  const selectGrantsReceived = db.prepare('SELECT * FROM grants WHERE recipient_key = ? ORDER BY merge_order, id');
+  const selectOrganizationNames = db.prepare('SELECT ein, name FROM organizations ORDER BY rowid').raw();
+  const selectAlias = db.prepare('SELECT ein FROM recipient_aliases WHERE alias = ?').pluck();
+
+  type EntityRow = { ein: string; name: string; metadata: string | null; people: string | null };
+
+  const metadata = Object.fromEntries(
+    (db.prepare('SELECT key, value FROM dataset_info').all() as Array<{ key: string; value: string }>)
+      .map(({ key, value }) => [key, JSON.parse(value)])
+  ) as CompleteDataset['metadata'];
+
+  return {
+    metadata,
+
+    foundation(ein) {
+      const row = selectFoundation.get(ein) as EntityRow | undefined;
+      if (!row) return undefined;
+
+      const rows = selectGrantsGiven.all(ein) as GrantRow[];
+      const commitments = rows.filter(r => r.committed).map(grantFromRow);
+      const foundation: Foundation = {
+        ein: row.ein,
+        name: row.name,
+        grantsGiven: rows.filter(r => !r.committed).map(grantFromRow),
+        metadata: fromJson(row.metadata),
+        people: fromJson(row.people)
+      };
+      if (commitments.length > 0) foundation.commitmentsMade = commitments;
+      return foundation;
+    },
+
+    organization(ein) {
+      const row = selectOrganization.get(ein) as EntityRow | undefined;
+      if (!row) return undefined;
+
+      const rows = selectGrantsReceived.all(ein) as GrantRow[];
+      const commitments = rows.filter(r => r.committed).map(receivedGrantFromRow);
+      const org: Organization = {
+        ein: row.ein,
+        name: row.name,
+        grantsReceived: rows.filter(r => !r.committed).map(receivedGrantFromRow),
+        metadata: fromJson(row.metadata),
+        people: fromJson(row.people)
+      };
+      if (commitments.length > 0) org.commitmentsReceived = commitments;
+      return org;
+    },
+
+    people(ein) {
+      return fromJson((selectFoundationPeople.get(ein) as string | null | undefined) ?? null) ||
+        fromJson((selectOrganizationPeople.get(ein) as string | null | undefined) ?? null);
+    },
+
+    // Read in one go: the connection can't run other queries while a result is being iterated
+    organizationNames() {
+      return selectOrganizationNames.all() as Array<[string, string]>;
+    },
+
+    resolveKey(key) {
+      return (selectAlias.get(key) as string | undefined) ?? key;
+    },
+
+    close() {
+      db.close();
+    }
+  };
+}
@@ -0,0 +1,319 @@
+/**
+ * Entity resolution for grant recipients without an EIN.
+ *
+ * A name as written on a return ("BOLD", "Black Organizing for Leadership &
+ * Dignity Inc") is scored against every known organization. Each signal adds
+ * log-odds for or against the two being the same organization:
+ *
+ *   name        shared name words (Dice coefficient, tolerating one-letter typos),
+ *               or the same name once legal suffixes and filler words are dropped
+ *   acronym     one name is the acronym of the other
+ *   city/state  address agreement (a different state counts heavily against)
+ *   zip         same 5-digit ZIP code
+ *   co-funders  funders that gave to both the unmatched name and the candidate
+ *
+ * The score is the logistic of the sum, a match probability between 0 and 1.
+ * A candidate is accepted when its score reaches the threshold and beats the
+ * runner-up by at least the margin. Every result keeps its score and the
+ * evidence behind it, so a questionable merge can be traced and overridden
+ * (see grantee-overrides.ts).
+ */
+
+export interface MatchOptions {
+  threshold: number; // Minimum score to accept a match (0-1)
+  margin: number; // Minimum lead over the next candidate, otherwise the match is ambiguous
+}
+
+export const DEFAULT_MATCH_OPTIONS: MatchOptions = { threshold: 0.85, margin: 0.02 };
+
+/**
+ * An organization, or an unmatched recipient name, with what is known about it
+ */
+export interface RecipientProfile {
+  key: string; // EIN or no_ein_ placeholder
+  name: string;
+  city?: string;
+  state?: string;
+  zip?: string;
+  funders?: Set<string>; // EINs of funders that gave to it
+}
+
+export interface MatchEvidence {
+  signal: 'name' | 'acronym' | 'city' | 'state' | 'zip' | 'co-funders' | 'override';
+  detail: string;
+  weight: number; // Log-odds added to the score
+}
+
+export interface ScoredCandidate {
+  key: string;
+  name: string;
+  score: number;
+  evidence: MatchEvidence[];
+}
+
+export interface MatchResult {
+  status: 'matched' | 'ambiguous' | 'unmatched';
+  match: ScoredCandidate | null; // Set when matched
+  candidates: ScoredCandidate[]; // Best first
+}
+
+const LEGAL_WORDS = new Set(['inc', 'incorporated', 'llc', 'ltd', 'limited', 'corp', 'corporation', 'co', 'the', 'a', 'an']);
+const FILLER_WORDS = new Set(['of', 'for', 'and', 'in', 'on', 'at', 'to']);
+
+const MIN_NAME_SIMILARITY = 0.5; // Candidates sharing fewer name words are not scored at all
+const MAX_POSTINGS = 2000; // Tokens shared by more organizations than this don't nominate candidates
+const MAX_CANDIDATES = 100; // Candidates scored per name, by most shared tokens
+const REPORTED_CANDIDATES = 3;
+
+// Log-odds weights
+const SAME_NAME_WEIGHT = 3; // ≈ 0.95 on its own
+const ACRONYM_WEIGHT = 1.2; // ≈ 0.77: below the default threshold without an address or co-funder to back it
+const NAME_SIMILARITY_SCALE = 10; // Per unit of Dice coefficient above NAME_SIMILARITY_EVEN
+const NAME_SIMILARITY_EVEN = 0.75; // Dice coefficient that is neither for nor against
+const MAX_NAME_SIMILARITY_WEIGHT = 2.5;
+const CITY_WEIGHT = 0.5;
+const CITY_MISMATCH_WEIGHT = -0.7;
+const STATE_WEIGHT = 0.7;
+const STATE_MISMATCH_WEIGHT = -3;
+const ZIP_WEIGHT = 1;
+const CO_FUNDER_WEIGHT = 0.7; // Per shared funder
+const MAX_CO_FUNDER_WEIGHT = 2;
+
+interface IndexedName {
+  profile: RecipientProfile;
+  tokens: string[]; // Significant tokens
+  acronyms: string[];
+}
+
+/**
+ * Lowercase words of a name, with & spelled out
+ */
+function words(name: string): string[] {
+  return name.toLowerCase().replace(/&/g, ' and ').split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+function significantTokens(name: string): string[] {
+  return words(name).filter(w => !LEGAL_WORDS.has(w) && !FILLER_WORDS.has(w));
+}
+
+/**
+ * Acronyms a name could be known by, with and without its filler words
+ * ("Black Organizing for Leadership and Dignity" → bold, boflad)
+ */
+function acronymsOf(name: string): string[] {
+  const named = words(name).filter(w => !LEGAL_WORDS.has(w));
+  const significant = named.filter(w => !FILLER_WORDS.has(w));
+  if (significant.length < 3) return [];
+  const acronyms = new Set([significant, named].map(ws => ws.map(w => w[0]).join('')));
+  return [...acronyms];
+}
+
+/**
+ * Whether a name is written as a single acronym-like word
+ */
+function acronymForm(tokens: string[]): string | null {
+  return tokens.length === 1 && tokens[0].length >= 3 && tokens[0].length <= 8 && /^[a-z]+$/.test(tokens[0])
+    ? tokens[0]
+    : null;
+}
+
+/**
+ * Whether two tokens are the same word, allowing one edit in longer words
+ */
+function sameToken(a: string, b: string): boolean {
+  if (a === b) return true;
+  if (a.length < 5 || b.length < 5 || Math.abs(a.length - b.length) > 1) return false;
+
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (b.length > a.length) j++;
+    else {
+      i++;
+      j++;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
+
+function sharedTokens(a: string[], b: string[]): number {
+  const unused = [...b];
+  let shared = 0;
+  for (const token of a) {
+    const index = unused.findIndex(other => sameToken(token, other));
+    if (index >= 0) {
+      unused.splice(index, 1);
+      shared++;
+    }
+  }
+  return shared;
+}
+
+const round = (n: number) => Math.round(n * 1000) / 1000;
+const sameText = (a?: string, b?: string) => !!a && !!b && a.trim().toUpperCase() === b.trim().toUpperCase();
+
+function nameEvidence(query: IndexedName, candidate: IndexedName): MatchEvidence | null {
+  if (query.tokens.length > 0 && query.tokens.join(' ') === candidate.tokens.join(' ')) {
+    return { signal: 'name', detail: 'same name', weight: SAME_NAME_WEIGHT };
+  }
+
+  const queryAcronym = acronymForm(query.tokens);
+  if (queryAcronym && candidate.acronyms.includes(queryAcronym)) {
+    return { signal: 'acronym', detail: `"${query.profile.name}" is the acronym of "${candidate.profile.name}"`, weight: ACRONYM_WEIGHT };
+  }
+  const candidateAcronym = acronymForm(candidate.tokens);
+  if (candidateAcronym && query.acronyms.includes(candidateAcronym)) {
+    return { signal: 'acronym', detail: `"${candidate.profile.name}" is the acronym of "${query.profile.name}"`, weight: ACRONYM_WEIGHT };
+  }
+
+  const shared = sharedTokens(query.tokens, candidate.tokens);
+  const dice = shared === 0 ? 0 : 2 * shared / (query.tokens.length + candidate.tokens.length);
+  if (dice < MIN_NAME_SIMILARITY) return null;
+  return {
+    signal: 'name',
+    detail: `${shared} of ${Math.max(query.tokens.length, candidate.tokens.length)} name words shared`,
+    weight: round(Math.min(MAX_NAME_SIMILARITY_WEIGHT, NAME_SIMILARITY_SCALE * (dice - NAME_SIMILARITY_EVEN)))
+  };
+}
+
+function locationEvidence(query: RecipientProfile, candidate: RecipientProfile): MatchEvidence[] {
+  const evidence: MatchEvidence[] = [];
+  const stateKnown = !!query.state && !!candidate.state;
+
+  if (stateKnown) {
+    evidence.push(sameText(query.state, candidate.state)
+      ? { signal: 'state', detail: `both in ${candidate.state!.toUpperCase()}`, weight: STATE_WEIGHT }
+      : { signal: 'state', detail: `${query.state} vs ${candidate.state}`, weight: STATE_MISMATCH_WEIGHT });
+  }
+  // A different city only counts against a candidate in the same state (or with no state to compare)
+  if (query.city && candidate.city) {
+    if (sameText(query.city, candidate.city)) {
+      evidence.push({ signal: 'city', detail: `both in ${candidate.city.toUpperCase()}`, weight: CITY_WEIGHT });
+    } else if (!stateKnown || sameText(query.state, candidate.state)) {
+      evidence.push({ signal: 'city', detail: `${query.city} vs ${candidate.city}`, weight: CITY_MISMATCH_WEIGHT });
+    }
+  }
+  const queryZip = query.zip?.slice(0, 5);
+  if (queryZip && queryZip.length === 5 && queryZip === candidate.zip?.slice(0, 5)) {
+    evidence.push({ signal: 'zip', detail: `both in ZIP ${queryZip}`, weight: ZIP_WEIGHT });
+  }
+  return evidence;
+}
+
+function coFunderEvidence(query: RecipientProfile, candidate: RecipientProfile): MatchEvidence | null {
+  if (!query.funders || !candidate.funders) return null;
+  const shared = [...query.funders].filter(ein => candidate.funders!.has(ein));
+  if (shared.length === 0) return null;
+  return {
+    signal: 'co-funders',
+    detail: `${shared.length} funder${shared.length === 1 ? '' : 's'} in common (${shared.slice(0, 3).join(', ')}${shared.length > 3 ? ', …' : ''})`,
+    weight: Math.min(MAX_CO_FUNDER_WEIGHT, CO_FUNDER_WEIGHT * shared.length)
+  };
+}
+
+function indexName(profile: RecipientProfile): IndexedName {
+  return { profile, tokens: significantTokens(profile.name), acronyms: acronymsOf(profile.name) };
+}
+
+function addToIndex(index: Map<string, number[]>, key: string, id: number) {
+  const ids = index.get(key);
+  if (ids) ids.push(id);
+  else index.set(key, [id]);
+}
+
+/**
+ * Index a set of organizations so names can be matched against them
+ */
+export function createRecipientMatcher(profiles: Iterable<RecipientProfile>, options: MatchOptions = DEFAULT_MATCH_OPTIONS) {
+  const entries: IndexedName[] = [];
+  const byTokens = new Map<string, number[]>(); // Full significant name
+  const byToken = new Map<string, number[]>();
+  const byAcronym = new Map<string, number[]>();
+
+  for (const profile of profiles) {
+    const entry = indexName(profile);
+    const id = entries.push(entry) - 1;
+    addToIndex(byTokens, entry.tokens.join(' '), id);
+    for (const token of new Set(entry.tokens)) addToIndex(byToken, token, id);
+    for (const acronym of entry.acronyms) addToIndex(byAcronym, acronym, id);
+  }
+
+  /**
+   * Organizations worth scoring: same name, acronym either way, then most shared words
+   */
+  const nominate = (query: IndexedName): Set<number> => {
+    const ids = new Set<number>(byTokens.get(query.tokens.join(' ')) ?? []);
+    const acronym = acronymForm(query.tokens);
+    if (acronym) byAcronym.get(acronym)?.forEach(id => ids.add(id));
+    for (const queryAcronym of query.acronyms) byTokens.get(queryAcronym)?.forEach(id => ids.add(id));
+
+    const postings = [...new Set(query.tokens)]
+      .map(token => byToken.get(token) ?? [])
+      .filter(list => list.length > 0)
+      .sort((a, b) => a.length - b.length);
+    const usable = postings.filter(list => list.length <= MAX_POSTINGS);
+    const shared = new Map<number, number>();
+    for (const list of usable.length > 0 ? usable : postings.slice(0, 1)) {
+      for (const id of list.slice(0, MAX_POSTINGS)) shared.set(id, (shared.get(id) ?? 0) + 1);
+    }
+    [...shared.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_CANDIDATES)
+      .forEach(([id]) => ids.add(id));
+    return ids;
+  };
+
+  const score = (query: IndexedName, candidate: IndexedName): ScoredCandidate | null => {
+    const name = nameEvidence(query, candidate);
+    if (!name) return null;
+
+    const evidence = [name, ...locationEvidence(query.profile, candidate.profile)];
+    const coFunders = coFunderEvidence(query.profile, candidate.profile);
+    if (coFunders) evidence.push(coFunders);
+
+    const logOdds = evidence.reduce((sum, e) => sum + e.weight, 0);
+    return {
+      key: candidate.profile.key,
+      name: candidate.profile.name,
+      score: round(1 / (1 + Math.exp(-logOdds))),
+      evidence
+    };
+  };
+
+  return {
+    size: entries.length,
+
+    // Organizations in exclude are never candidates (known false matches)
+    match(profile: RecipientProfile, exclude?: Set<string>): MatchResult {
+      const query = indexName(profile);
+      const scored: Array<{ id: number; candidate: ScoredCandidate }> = [];
+      for (const id of nominate(query)) {
+        if (entries[id].profile.key === profile.key || exclude?.has(entries[id].profile.key)) continue;
+        const candidate = score(query, entries[id]);
+        if (candidate) scored.push({ id, candidate });
+      }
+      // Highest score first; ties in index order so results are stable between runs
+      const candidates = scored.sort((a, b) => b.candidate.score - a.candidate.score || a.id - b.id).map(s => s.candidate);
+      const reported = candidates.slice(0, REPORTED_CANDIDATES);
+
+      const [best, runnerUp] = candidates;
+      if (!best || best.score < options.threshold) {
+        return { status: 'unmatched', match: null, candidates: reported };
+      }
+      if (runnerUp && best.score - runnerUp.score < options.margin) {
+        return { status: 'ambiguous', match: null, candidates: reported };
+      }
+      return { status: 'matched', match: best, candidates: reported };
+    }
+  };
+}
+
+export type RecipientMatcher = ReturnType<typeof createRecipientMatcher>;
@@ -0,0 +1,189 @@
+/**
+ * IRS Exempt Organizations Business Master File (EO BMF) extract.
+ *
+ * The IRS publishes every tax-exempt organization as CSV files (eo1.csv-eo4.csv
+ * by region, or eo_xx.csv by state) at https://www.irs.gov/charities-non-profits/
+ * exempt-organizations-business-master-file-extract-eo-bmf. Downloaded to a local
+ * directory, they serve two purposes:
+ *
+ * - An EIN registry: the name and address of organizations that never appear
+ *   in a grant-making return, for matching recipients without an EIN
+ * - Classification for every organization: NTEE code, subsection, ruling date
+ *   and foundation code, carried in node metadata for the UI
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse } from 'csv-parse';
+import type { RecipientProfile } from './entity-resolution';
+
+/**
+ * What the EO BMF says about an organization, as stored in node metadata
+ */
+export interface ExemptClassification {
+  nteeCode?: string; // National Taxonomy of Exempt Entities code, e.g. "B82"
+  nteeCategory?: string; // Major group of the NTEE code, e.g. "Education"
+  subsection?: string; // e.g. "501(c)(3)"
+  rulingDate?: string; // Month the IRS recognized the exemption, "YYYY-MM"
+  foundationCode?: string; // BMF FOUNDATION code, e.g. "15"
+  foundationType?: string; // What the foundation code means
+}
+
+export interface BmfOrganization extends ExemptClassification {
+  ein: string;
+  name: string;
+  address?: string;
+  city?: string;
+  state?: string;
+  zip?: string;
+}
+
+// NTEE major groups, by the first letter of the code
+const NTEE_MAJOR_GROUPS: Record<string, string> = {
+  A: 'Arts, Culture & Humanities',
+  B: 'Education',
+  C: 'Environment',
+  D: 'Animal-Related',
+  E: 'Health Care',
+  F: 'Mental Health & Crisis Intervention',
+  G: 'Voluntary Health Associations & Medical Disciplines',
+  H: 'Medical Research',
+  I: 'Crime & Legal-Related',
+  J: 'Employment',
+  K: 'Food, Agriculture & Nutrition',
+  L: 'Housing & Shelter',
+  M: 'Public Safety, Disaster Preparedness & Relief',
+  N: 'Recreation & Sports',
+  O: 'Youth Development',
+  P: 'Human Services',
+  Q: 'International, Foreign Affairs & National Security',
+  R: 'Civil Rights, Social Action & Advocacy',
+  S: 'Community Improvement & Capacity Building',
+  T: 'Philanthropy, Voluntarism & Grantmaking Foundations',
+  U: 'Science & Technology',
+  V: 'Social Science',
+  W: 'Public & Societal Benefit',
+  X: 'Religion-Related',
+  Y: 'Mutual & Membership Benefit',
+  Z: 'Unknown'
+};
+
+// BMF FOUNDATION codes (Publication 4838)
+const FOUNDATION_TYPES: Record<string, string> = {
+  '00': 'Not a 501(c)(3) organization',
+  '02': 'Private operating foundation exempt from excise tax',
+  '03': 'Private operating foundation',
+  '04': 'Private non-operating foundation',
+  '09': 'Suspense',
+  '10': 'Church 170(b)(1)(A)(i)',
+  '11': 'School 170(b)(1)(A)(ii)',
+  '12': 'Hospital or medical research organization 170(b)(1)(A)(iii)',
+  '13': 'Organization supporting a government college or university 170(b)(1)(A)(iv)',
+  '14': 'Governmental unit 170(b)(1)(A)(v)',
+  '15': 'Publicly supported organization 170(b)(1)(A)(vi)',
+  '16': 'Gross receipts supported organization 509(a)(2)',
+  '17': 'Supporting organization 509(a)(3)',
+  '18': 'Public safety testing organization 509(a)(4)',
+  '21': 'Supporting organization 509(a)(3) Type I',
+  '22': 'Supporting organization 509(a)(3) Type II',
+  '23': 'Supporting organization 509(a)(3) Type III functionally integrated',
+  '24': 'Supporting organization 509(a)(3) Type III non-functionally integrated'
+};
+
+const clean = (value: string | undefined): string | undefined => value?.trim() || undefined;
+
+function definedOnly<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
+
+function subsectionLabel(code: string | undefined): string | undefined {
+  if (!code || !/^\d+$/.test(code) || code === '00') return undefined;
+  return code === '92' ? '4947(a)(1)' : `501(c)(${parseInt(code, 10)})`;
+}
+
+function rulingDate(value: string | undefined): string | undefined {
+  const match = value?.match(/^(\d{4})(\d{2})$/);
+  if (!match || match[1] === '0000') return undefined;
+  return `${match[1]}-${match[2]}`;
+}
+
+function organizationFromRow(row: Record<string, string>): BmfOrganization | null {
+  const ein = (row.EIN || '').replace(/[^0-9]/g, '');
+  const name = clean(row.NAME);
+  if (ein.length !== 9 || !name) return null;
+
+  const nteeCode = clean(row.NTEE_CD)?.toUpperCase();
+  const foundationCode = clean(row.FOUNDATION);
+  return {
+    ein,
+    name,
+    address: clean(row.STREET),
+    city: clean(row.CITY),
+    state: clean(row.STATE),
+    zip: clean(row.ZIP)?.slice(0, 5),
+    nteeCode,
+    nteeCategory: nteeCode ? NTEE_MAJOR_GROUPS[nteeCode[0]] : undefined,
+    subsection: subsectionLabel(clean(row.SUBSECTION)),
+    rulingDate: rulingDate(clean(row.RULING)),
+    foundationCode,
+    foundationType: foundationCode ? FOUNDATION_TYPES[foundationCode] : undefined
+  };
+}
+
+/**
+ * Read every EO BMF CSV in a directory into an EIN registry
+ */
+export async function loadBmfRegistry(dir: string) {
+  const files = fs.readdirSync(dir).filter(f => f.toLowerCase().endsWith('.csv')).sort();
+  if (files.length === 0) {
+    throw new Error(`No EO BMF CSV files found in ${dir}`);
+  }
+
+  const organizations = new Map<string, BmfOrganization>();
+  let skipped = 0;
+
+  for (const file of files) {
+    const rows = fs.createReadStream(path.join(dir, file))
+      .pipe(parse({ columns: header => header.map((h: string) => h.trim().toUpperCase()), relax_column_count: true, bom: true }));
+    for await (const row of rows) {
+      const org = organizationFromRow(row);
+      if (!org) {
+        skipped++;
+      } else if (!organizations.has(org.ein)) {
+        // State files repeat organizations from the regional files
+        organizations.set(org.ein, org);
+      }
+    }
+  }
+
+  return {
+    files,
+    size: organizations.size,
+    skipped, // Rows without a valid EIN or name
+
+    get(ein: string): BmfOrganization | undefined {
+      return organizations.get(ein);
+    },
+
+    // Registry organizations to match recipient names against
+    *profiles(): Iterable<RecipientProfile> {
+      for (const org of organizations.values()) {
+        yield { key: org.ein, name: org.name, city: org.city, state: org.state, zip: org.zip };
+      }
+    },
+
+    // Address and classification for an organization's metadata; what the returns say wins
+    metadataFor<T extends { address?: string; city?: string; state?: string }>(ein: string, metadata: T | undefined): (T & ExemptClassification) | undefined {
+      const org = organizations.get(ein);
+      if (!org) return metadata;
+      const { address, city, state, nteeCode, nteeCategory, subsection, rulingDate, foundationCode, foundationType } = org;
+      return {
+        ...(metadata?.city || metadata?.state ? {} : definedOnly({ address, city, state })),
+        ...metadata,
+        ...definedOnly({ nteeCode, nteeCategory, subsection, rulingDate, foundationCode, foundationType })
+      } as T & ExemptClassification;
+    }
+  };
+}
+
+export type BmfRegistry = Awaited<ReturnType<typeof loadBmfRegistry>>;
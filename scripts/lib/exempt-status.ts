@@ -0,0 +1,140 @@
+/**
+ * Tax-exempt status from the IRS Tax Exempt Organization Search bulk downloads.
+ *
+ * Two pipe-delimited text files, unzipped from
+ * https://www.irs.gov/charities-non-profits/tax-exempt-organization-search-bulk-data-downloads:
+ *
+ *   Auto-revocation list  data-download-revocation.txt: organizations whose exemption
+ *                         was automatically revoked for not filing three years in a row,
+ *                         with the revocation date and any reinstatement
+ *   Publication 78        data-download-pub78.txt: organizations eligible to receive
+ *                         tax-deductible contributions, with deductibility codes
+ *
+ * Either file can be given on its own. An organization's status is:
+ *
+ *   revoked     on the revocation list and not reinstated
+ *   reinstated  revoked, then reinstated
+ *   eligible    in Publication 78
+ *   unlisted    in neither (only when Publication 78 was loaded); not necessarily
+ *               a problem, since churches, government units and non-501(c)(3)
+ *               organizations are not in it, but worth a look
+ */
+
+import * as fs from 'fs';
+import * as readline from 'readline';
+
+export interface ExemptStatus {
+  exemptStatus: 'revoked' | 'reinstated' | 'eligible' | 'unlisted';
+  revocationDate?: string; // YYYY-MM-DD the exemption was revoked
+  revocationPostingDate?: string; // YYYY-MM-DD the IRS published the revocation
+  reinstatementDate?: string; // YYYY-MM-DD the exemption was reinstated
+  deductibility?: string; // Publication 78 deductibility codes, e.g. "PC" (public charity)
+}
+
+const STATUS_FIELDS: Array<keyof ExemptStatus> = ['exemptStatus', 'revocationDate', 'revocationPostingDate', 'reinstatementDate', 'deductibility'];
+
+interface Revocation {
+  revocationDate?: string;
+  revocationPostingDate?: string;
+  reinstatementDate?: string;
+}
+
+const MONTHS: Record<string, string> = {
+  JAN: '01', FEB: '02', MAR: '03', APR: '04', MAY: '05', JUN: '06',
+  JUL: '07', AUG: '08', SEP: '09', OCT: '10', NOV: '11', DEC: '12'
+};
+
+function definedOnly(value: ExemptStatus): ExemptStatus {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as unknown as ExemptStatus;
+}
+
+/**
+ * "15-MAY-2010", "05/15/2010" or "2010-05-15" as YYYY-MM-DD
+ */
+function parseDate(value: string | undefined): string | undefined {
+  const text = value?.trim().toUpperCase();
+  if (!text) return undefined;
+
+  let match = text.match(/^(\d{1,2})-([A-Z]{3})-(\d{4})$/);
+  if (match && MONTHS[match[2]]) return `${match[3]}-${MONTHS[match[2]]}-${match[1].padStart(2, '0')}`;
+  match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (match) return `${match[3]}-${match[1].padStart(2, '0')}-${match[2].padStart(2, '0')}`;
+  match = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) return `${match[1]}-${match[2]}-${match[3]}`;
+  return undefined;
+}
+
+/**
+ * Call onRow with the fields of every line that starts with an EIN (header lines don't)
+ */
+async function readPipeDelimited(filePath: string, onRow: (ein: string, fields: string[]) => void): Promise<void> {
+  const lines = readline.createInterface({ input: fs.createReadStream(filePath), crlfDelay: Infinity });
+  for await (const line of lines) {
+    const fields = line.split('|').map(f => f.trim());
+    const ein = fields[0].replace(/^\uFEFF/, '').replace(/-/g, '');
+    if (/^\d{9}$/.test(ein)) onRow(ein, fields);
+  }
+}
+
+/**
+ * Read the auto-revocation list and/or Publication 78
+ */
+export async function loadExemptStatus(files: { revocationList: string | null; pub78: string | null }) {
+  const revocations = new Map<string, Revocation>();
+  const deductibility = new Map<string, string>();
+
+  if (files.revocationList) {
+    // EIN|Legal Name|DBA Name|Address|City|State|ZIP|Country|Exemption Type|Revocation Date|Posting Date|Reinstatement Date
+    await readPipeDelimited(files.revocationList, (ein, fields) => {
+      const revocation: Revocation = {
+        revocationDate: parseDate(fields[9]),
+        revocationPostingDate: parseDate(fields[10]),
+        reinstatementDate: parseDate(fields[11])
+      };
+      // Organizations revoked more than once are listed once per revocation; keep the latest
+      const previous = revocations.get(ein);
+      if (!previous || (revocation.revocationDate ?? '') >= (previous.revocationDate ?? '')) {
+        revocations.set(ein, revocation);
+      }
+    });
+  }
+
+  if (files.pub78) {
+    // EIN|Legal Name|City|State|Country|Deductibility Code(s)
+    await readPipeDelimited(files.pub78, (ein, fields) => {
+      deductibility.set(ein, fields[5] || '');
+    });
+  }
+
+  const get = (ein: string): ExemptStatus | undefined => {
+    const revocation = revocations.get(ein);
+    const codes = deductibility.get(ein) || undefined;
+    if (revocation) {
+      const exemptStatus = revocation.reinstatementDate ? 'reinstated' : 'revoked';
+      return definedOnly({ exemptStatus, ...revocation, deductibility: codes });
+    }
+    if (deductibility.has(ein)) return definedOnly({ exemptStatus: 'eligible', deductibility: codes });
+    if (files.pub78 && /^\d{9}$/.test(ein)) return { exemptStatus: 'unlisted' };
+    return undefined;
+  };
+
+  return {
+    revoked: [...revocations.values()].filter(r => !r.reinstatementDate).length,
+    reinstated: [...revocations.values()].filter(r => r.reinstatementDate).length,
+    eligible: deductibility.size,
+
+    get,
+
+    // Metadata with the organization's exempt status from these files. Status from an earlier
+    // build is always removed, so an organization dropped from the revocation list loses it.
+    metadataFor<T extends object>(ein: string, metadata: T | undefined): (T & Partial<ExemptStatus>) | undefined {
+      const status = get(ein);
+      if (!metadata && !status) return undefined;
+      const rest: Record<string, unknown> = { ...metadata };
+      for (const field of STATUS_FIELDS) delete rest[field];
+      return { ...rest, ...status } as T & Partial<ExemptStatus>;
+    }
+  };
+}
+
+export type ExemptStatusList = Awaited<ReturnType<typeof loadExemptStatus>>;
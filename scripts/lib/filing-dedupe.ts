@@ -0,0 +1,111 @@
+/**
+ * Resolve amended and duplicate returns.
+ *
+ * A foundation's return for a tax period can reach us more than once: an
+ * amended return replaces the original, and the same return can appear in
+ * two monthly archives. Filings are grouped by EIN + tax period + return type,
+ * and only the latest one is kept (by filing timestamp, then amended over
+ * original, then the later IRS object id), so each tax period is counted once.
+ */
+
+import type { FilingInfo } from './irs-xml';
+
+export interface FilingSummary {
+  ein: string;
+  name: string;
+  filing?: FilingInfo;
+  grants: number;
+}
+
+export interface SupersededFiling {
+  ein: string;
+  name: string;
+  returnType: string;
+  taxPeriodEnd: string | null;
+  objectId: string;
+  amended: boolean;
+  returnTimestamp: string | null;
+  grants: number;
+  reason: 'duplicate' | 'amended' | 'later filing';
+  supersededBy: {
+    objectId: string;
+    amended: boolean;
+    returnTimestamp: string | null;
+  };
+}
+
+function filingTime(filing: FilingInfo): number {
+  const time = filing.returnTimestamp ? Date.parse(filing.returnTimestamp) : NaN;
+  return Number.isNaN(time) ? 0 : time;
+}
+
+/**
+ * Whether filing a should replace filing b
+ */
+function supersedes(a: FilingInfo, b: FilingInfo): boolean {
+  const timeDiff = filingTime(a) - filingTime(b);
+  if (timeDiff !== 0) return timeDiff > 0;
+  if (a.amended !== b.amended) return a.amended;
+  return a.objectId > b.objectId;
+}
+
+function supersededReason(dropped: FilingInfo, kept: FilingInfo): SupersededFiling['reason'] {
+  if (dropped.objectId === kept.objectId) return 'duplicate';
+  return kept.amended ? 'amended' : 'later filing';
+}
+
+/**
+ * Keep one filing per EIN, tax period and return type. Filings without
+ * return information (or a tax period) cannot be matched and are all kept.
+ */
+export function dedupeFilings<T>(
+  filings: T[],
+  summarize: (filing: T) => FilingSummary
+): { kept: T[]; superseded: SupersededFiling[] } {
+  const latestByPeriod = new Map<string, { index: number; summary: FilingSummary }>();
+  const dropped: Array<{ key: string; index: number; summary: FilingSummary }> = [];
+
+  filings.forEach((filing, index) => {
+    const summary = summarize(filing);
+    if (!summary.filing?.taxPeriodEnd || !summary.ein) return;
+
+    const key = `${summary.ein}|${summary.filing.taxPeriodEnd}|${summary.filing.returnType}`;
+    const current = latestByPeriod.get(key);
+    if (!current) {
+      latestByPeriod.set(key, { index, summary });
+    } else if (supersedes(summary.filing, current.summary.filing!)) {
+      dropped.push({ key, ...current });
+      latestByPeriod.set(key, { index, summary });
+    } else {
+      dropped.push({ key, index, summary });
+    }
+  });
+
+  // Report each dropped filing against the one finally kept for its tax period
+  const superseded = dropped.map(({ key, summary }): SupersededFiling => {
+    const filing = summary.filing!;
+    const kept = latestByPeriod.get(key)!.summary.filing!;
+    return {
+      ein: summary.ein,
+      name: summary.name,
+      returnType: filing.returnType,
+      taxPeriodEnd: filing.taxPeriodEnd ?? null,
+      objectId: filing.objectId,
+      amended: filing.amended,
+      returnTimestamp: filing.returnTimestamp ?? null,
+      grants: summary.grants,
+      reason: supersededReason(filing, kept),
+      supersededBy: {
+        objectId: kept.objectId,
+        amended: kept.amended,
+        returnTimestamp: kept.returnTimestamp ?? null
+      }
+    };
+  });
+
+  const droppedIndexes = new Set(dropped.map(d => d.index));
+  return {
+    kept: filings.filter((_, index) => !droppedIndexes.has(index)),
+    superseded
+  };
+}
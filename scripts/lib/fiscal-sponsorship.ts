@@ -0,0 +1,74 @@
+/**
+ * Fiscal sponsorship: a sponsor organization receives grants on behalf of a
+ * project that has no EIN of its own.
+ *
+ * The master grants list names the sponsor in its "Fiscal Sponsor, If Any"
+ * column, and the grantee overrides can add or correct sponsorships. IRS
+ * returns only show grants to the sponsor's EIN, so a sponsor's incoming grants
+ * are credited to the project when
+ *
+ *   - the grant purpose mentions the project (its name, or a phrase from the overrides), or
+ *   - the overrides say every grant from that funder to the sponsor is for the project.
+ *
+ * Grants the sponsor receives for its own work stay with the sponsor.
+ */
+
+import type { ReceivedGrant } from './complete-dataset';
+
+/**
+ * A sponsor -> project edge in the network
+ */
+export interface FiscalSponsorship {
+  sponsor: string; // Sponsor node id
+  project: string; // Project node id
+  sponsorName: string;
+  projectName: string;
+  attributedGrants: number; // Grants to the sponsor credited to the project
+  attributedAmount: number;
+}
+
+/**
+ * How to recognize the sponsor's grants that are for a project
+ */
+export interface SponsorshipRule {
+  purpose: string[]; // Phrases in a grant purpose that mark it for the project, besides the project name
+  funders: Set<string>; // Funder EINs whose grants to the sponsor are all for the project
+}
+
+export interface AttributedGrant {
+  grant: ReceivedGrant;
+  attribution: 'purpose' | 'override';
+}
+
+// Lowercase words separated by single spaces, so phrases only match whole words
+function words(text: string): string {
+  return ` ${text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `;
+}
+
+/**
+ * Whether a grant purpose names any of the phrases
+ */
+export function purposeMentions(purpose: string | undefined, phrases: string[]): boolean {
+  if (!purpose) return false;
+  const text = words(purpose);
+  return phrases.some(phrase => {
+    const target = words(phrase);
+    return target.trim() !== '' && text.includes(target);
+  });
+}
+
+/**
+ * The sponsor's grants that belong to the project
+ */
+export function attributeSponsorGrants(grants: ReceivedGrant[], projectName: string, rule?: SponsorshipRule): AttributedGrant[] {
+  const phrases = [projectName, ...(rule?.purpose ?? [])];
+  const attributed: AttributedGrant[] = [];
+  for (const grant of grants) {
+    if (rule?.funders.has(grant.funderEIN)) {
+      attributed.push({ grant, attribution: 'override' });
+    } else if (purposeMentions(grant.purpose, phrases)) {
+      attributed.push({ grant, attribution: 'purpose' });
+    }
+  }
+  return attributed;
+}
@@ -0,0 +1,279 @@
+/**
+ * Manual grantee overrides, for when entity resolution gets an organization wrong.
+ *
+ * The grants team keeps data/grantee-overrides.yaml in the repo. It has four lists:
+ *
+ *   aliases        a spreadsheet name or no_ein_ key that is always this EIN
+ *   neverMatch     a name or no_ein_ key that must never be matched to this EIN
+ *   merge          EINs that are the same organization, merged into the first
+ *   fiscalSponsors a project's fiscal sponsor, and which of the sponsor's grants
+ *                  are for the project (see fiscal-sponsorship.ts)
+ *
+ * A name and the no_ein_ key built from it are interchangeable: "BOLD, Inc."
+ * covers the spreadsheet row and every grant filed as no_ein_bold. Overrides
+ * always win over the matcher; their matches carry an 'override' evidence entry
+ * with the note from the file, so the network shows why a grantee was placed.
+ */
+
+import * as fs from 'fs';
+import YAML from 'yaml';
+import { normalizeOrgName, type DatasetView, type Organization } from './complete-dataset';
+import type { ScoredCandidate } from './entity-resolution';
+import type { SponsorshipRule } from './fiscal-sponsorship';
+
+interface OverrideEntry {
+  name?: string;
+  key?: string;
+  ein?: string | number;
+  note?: string;
+}
+
+interface MergeEntry {
+  ein?: string | number;
+  duplicates?: Array<string | number>;
+  note?: string;
+}
+
+interface SponsorEntry {
+  project?: string;
+  sponsor?: string | number;
+  purpose?: string[];
+  funders?: Array<string | number>;
+  note?: string;
+}
+
+interface OverridesFile {
+  aliases?: OverrideEntry[];
+  neverMatch?: OverrideEntry[];
+  merge?: MergeEntry[];
+  fiscalSponsors?: SponsorEntry[];
+}
+
+export interface SponsorshipOverride extends SponsorshipRule {
+  sponsorEIN: string | null; // The sponsor, when the master list's name for it doesn't match
+  note?: string;
+}
+
+/**
+ * The no_ein_ key a spreadsheet or return name is filed under
+ */
+export function placeholderKey(name: string): string {
+  return `no_ein_${normalizeOrgName(name)}`;
+}
+
+function parseEIN(value: unknown, label: string, errors: string[]): string | null {
+  const digits = String(value ?? '').replace(/[^0-9]/g, '');
+  if (digits.length !== 9) {
+    errors.push(`${label}: "${value ?? ''}" is not a 9-digit EIN`);
+    return null;
+  }
+  return digits;
+}
+
+function parseEntryKey(entry: OverrideEntry, label: string, errors: string[]): string | null {
+  if (entry.name && entry.key) {
+    errors.push(`${label}: give a name or a key, not both`);
+    return null;
+  }
+  const key = entry.key ?? (entry.name ? placeholderKey(String(entry.name)) : '');
+  if (!key.startsWith('no_ein_') || key === 'no_ein_') {
+    errors.push(`${label}: needs a name or a no_ein_ key, got ${JSON.stringify(entry.key ?? entry.name ?? null)}`);
+    return null;
+  }
+  return key;
+}
+
+/**
+ * Read and check an overrides file. Throws with every problem found, so a
+ * typo in the file stops the build instead of silently matching the wrong EIN.
+ */
+export function loadGranteeOverrides(filePath: string) {
+  let raw: OverridesFile | null;
+  try {
+    raw = YAML.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Could not read grantee overrides ${filePath}: ${error.message}`);
+  }
+
+  const errors: string[] = [];
+  const mergedInto = new Map<string, { ein: string; note?: string }>(); // Duplicate EIN -> EIN kept
+  const aliases = new Map<string, { ein: string; note?: string }>(); // no_ein_ key -> EIN
+  const neverMatch = new Map<string, Set<string>>(); // no_ein_ key -> EINs it is not
+  const sponsorships = new Map<string, SponsorshipOverride>(); // Project no_ein_ key -> sponsorship
+
+  (raw?.merge ?? []).forEach((entry, i) => {
+    const ein = parseEIN(entry.ein, `merge[${i}].ein`, errors);
+    if (!Array.isArray(entry.duplicates) || entry.duplicates.length === 0) {
+      errors.push(`merge[${i}].duplicates: must list at least one EIN`);
+      return;
+    }
+    entry.duplicates.forEach((value, j) => {
+      const duplicate = parseEIN(value, `merge[${i}].duplicates[${j}]`, errors);
+      if (!ein || !duplicate) return;
+      if (duplicate === ein || mergedInto.has(duplicate)) {
+        errors.push(`merge[${i}].duplicates[${j}]: ${duplicate} is already merged`);
+        return;
+      }
+      mergedInto.set(duplicate, { ein, note: entry.note });
+    });
+  });
+  for (const [duplicate, { ein }] of mergedInto) {
+    if (mergedInto.has(ein)) {
+      errors.push(`merge: ${duplicate} is merged into ${ein}, which is itself merged into ${mergedInto.get(ein)!.ein}`);
+    }
+  }
+
+  const canonicalEIN = (ein: string): string => mergedInto.get(ein)?.ein ?? ein;
+
+  (raw?.aliases ?? []).forEach((entry, i) => {
+    const key = parseEntryKey(entry, `aliases[${i}]`, errors);
+    const ein = parseEIN(entry.ein, `aliases[${i}].ein`, errors);
+    if (!key || !ein) return;
+    const existing = aliases.get(key);
+    if (existing && existing.ein !== canonicalEIN(ein)) {
+      errors.push(`aliases[${i}]: ${key} is already an alias of ${existing.ein}`);
+      return;
+    }
+    aliases.set(key, { ein: canonicalEIN(ein), note: entry.note });
+  });
+
+  (raw?.neverMatch ?? []).forEach((entry, i) => {
+    const key = parseEntryKey(entry, `neverMatch[${i}]`, errors);
+    const ein = parseEIN(entry.ein, `neverMatch[${i}].ein`, errors);
+    if (!key || !ein) return;
+    if (aliases.get(key)?.ein === canonicalEIN(ein)) {
+      errors.push(`neverMatch[${i}]: ${key} is also listed as an alias of ${ein}`);
+      return;
+    }
+    if (!neverMatch.has(key)) neverMatch.set(key, new Set());
+    neverMatch.get(key)!.add(canonicalEIN(ein));
+  });
+
+  (raw?.fiscalSponsors ?? []).forEach((entry, i) => {
+    const label = `fiscalSponsors[${i}]`;
+    const key = parseEntryKey({ name: entry.project }, `${label}.project`, errors);
+    const sponsorEIN = entry.sponsor === undefined ? null : parseEIN(entry.sponsor, `${label}.sponsor`, errors);
+    if (entry.purpose !== undefined && (!Array.isArray(entry.purpose) || entry.purpose.some(p => typeof p !== 'string' || !p.trim()))) {
+      errors.push(`${label}.purpose: must be a list of phrases`);
+      return;
+    }
+    if (entry.funders !== undefined && !Array.isArray(entry.funders)) {
+      errors.push(`${label}.funders: must be a list of EINs`);
+      return;
+    }
+    const funders = (entry.funders ?? []).map((value, j) => parseEIN(value, `${label}.funders[${j}]`, errors));
+    if (!key || (entry.sponsor !== undefined && !sponsorEIN) || funders.includes(null)) return;
+    if (sponsorships.has(key)) {
+      errors.push(`${label}: ${entry.project} already has a fiscal sponsor entry`);
+      return;
+    }
+    sponsorships.set(key, {
+      sponsorEIN: sponsorEIN && canonicalEIN(sponsorEIN),
+      purpose: entry.purpose ?? [],
+      funders: new Set(funders as string[]),
+      note: entry.note
+    });
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid grantee overrides ${filePath}:\n${errors.map(e => `  - ${e}`).join('\n')}`);
+  }
+
+  // Keys folded into each EIN, for reading the merged organization back out of a dataset
+  const sources = new Map<string, string[]>();
+  for (const [key, { ein }] of [...mergedInto, ...aliases]) {
+    if (!sources.has(ein)) sources.set(ein, []);
+    sources.get(ein)!.push(key);
+  }
+
+  const overrideCandidate = (key: string, name: string, ein: string, note?: string): ScoredCandidate => ({
+    key: ein,
+    name,
+    score: 1,
+    evidence: [{ signal: 'override', detail: note ? `${key}: ${note}` : key, weight: 0 }]
+  });
+
+  return {
+    size: { aliases: aliases.size, neverMatch: neverMatch.size, merges: mergedInto.size, fiscalSponsors: sponsorships.size },
+
+    // The EIN a duplicate EIN is merged into, or the EIN itself
+    canonicalEIN,
+
+    // The EIN a recipient key is overridden to, as a match with the override as evidence
+    aliasFor(key: string, nameOf: (ein: string) => string): ScoredCandidate | null {
+      const target = aliases.get(key) ?? mergedInto.get(key);
+      return target ? overrideCandidate(key, nameOf(target.ein), target.ein, target.note) : null;
+    },
+
+    // Whether a recipient key is folded into another EIN
+    isMerged(key: string): boolean {
+      return aliases.has(key) || mergedInto.has(key);
+    },
+
+    // EINs a recipient key must never be matched to
+    neverMatch(key: string): Set<string> {
+      return neverMatch.get(key) ?? new Set();
+    },
+
+    // Fiscal sponsor corrections for a project, by its name in the master list
+    sponsorshipFor(projectName: string): SponsorshipOverride | null {
+      return sponsorships.get(placeholderKey(projectName)) ?? null;
+    },
+
+    // Recipient keys whose grants belong to this EIN
+    sourcesOf(ein: string): string[] {
+      return sources.get(ein) ?? [];
+    }
+  };
+}
+
+export type GranteeOverrides = ReturnType<typeof loadGranteeOverrides>;
+
+/**
+ * Read a dataset as if the overrides had been applied when it was built. A
+ * database written before an override was added still gives the merged
+ * organization, and a placeholder merged into an EIN it must never match
+ * is reported unresolved.
+ */
+export function withGranteeOverrides(dataset: DatasetView, overrides: GranteeOverrides): DatasetView {
+  return {
+    foundation: ein => dataset.foundation(ein),
+    people: ein => dataset.people(ein),
+
+    organization(key) {
+      if (overrides.isMerged(key)) return undefined;
+
+      const own = dataset.organization(key);
+      const merged = overrides.sourcesOf(key)
+        .map(source => dataset.organization(source))
+        .filter((org): org is Organization => org !== undefined);
+      if (merged.length === 0) return own;
+
+      const [first, ...rest] = own ? [own, ...merged] : merged;
+      const org: Organization = { ...first, ein: key, grantsReceived: [...first.grantsReceived] };
+      for (const other of rest) {
+        org.grantsReceived.push(...other.grantsReceived);
+        if (other.commitmentsReceived) {
+          org.commitmentsReceived = [...(org.commitmentsReceived || []), ...other.commitmentsReceived];
+        }
+        org.metadata ??= other.metadata;
+        org.people ??= other.people;
+      }
+      return org;
+    },
+
+    *organizationNames() {
+      for (const [key, name] of dataset.organizationNames()) {
+        if (!overrides.isMerged(key)) yield [key, name];
+      }
+    },
+
+    resolveKey(key) {
+      const alias = overrides.aliasFor(key, ein => ein);
+      if (alias) return alias.key;
+
+      const resolved = overrides.canonicalEIN(dataset.resolveKey(key));
+      return overrides.neverMatch(key).has(resolved) ? key : resolved;
+    }
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * Reading a central funder's grants list for the build: the mapping file
+ * (data/grants-list-mapping.yaml by default), the .xlsx or .csv list itself,
+ * and the skipped-rows report written next to the complete dataset.
+ *
+ * The mapping and row import are shared with the app (src/services/grantsList.ts).
+ */
+
+import * as fs from 'fs';
+import xlsx from 'xlsx';
+import YAML from 'yaml';
+import {
+  importGrantsList,
+  parseGrantsListMapping,
+  SKIP_REASONS,
+  type GrantsListImport,
+  type GrantsListMapping,
+  type SkippedRow,
+  type SkippedSheet,
+  type SkipReason
+} from '../../src/services/grantsList';
+
+export interface GrantsListReport {
+  generatedAt: string;
+  file: string;
+  imported: number;
+  summary: Record<SkipReason, number>;
+  skippedSheets: SkippedSheet[];
+  skippedRows: SkippedRow[];
+}
+
+/**
+ * Read and validate a grants list mapping (YAML or JSON)
+ */
+export function loadGrantsListMapping(filePath: string): GrantsListMapping {
+  let raw: unknown;
+  try {
+    raw = YAML.parse(fs.readFileSync(filePath, 'utf-8')); // YAML is a superset of JSON
+  } catch (error) {
+    throw new Error(`Could not read grants list mapping ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+  return parseGrantsListMapping(raw, filePath);
+}
+
+/**
+ * Import a grants list (.xlsx, or .csv as a single sheet) with a mapping
+ */
+export function readGrantsList(filePath: string, mapping: GrantsListMapping): GrantsListImport {
+  const workbook = xlsx.readFile(filePath);
+  const sheets = workbook.SheetNames.map(name => ({
+    name,
+    rows: xlsx.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets[name]).map(values => ({
+      row: (values as { __rowNum__?: number }).__rowNum__! + 1, // sheet_to_json skips blank rows, so count from the sheet
+      values
+    }))
+  }));
+  return importGrantsList(sheets, mapping);
+}
+
+export function buildGrantsListReport(filePath: string, result: GrantsListImport): GrantsListReport {
+  const summary = Object.fromEntries(SKIP_REASONS.map(reason => [reason, 0])) as Record<SkipReason, number>;
+  for (const row of result.skippedRows) {
+    summary[row.reason]++;
+  }
+  return {
+    generatedAt: new Date().toISOString(),
+    file: filePath,
+    imported: result.grants.length,
+    summary,
+    skippedSheets: result.skippedSheets,
+    skippedRows: result.skippedRows
+  };
+}
+
+export function printGrantsListSummary(report: GrantsListReport): void {
+  for (const { sheet, reason } of report.skippedSheets) {
+    console.log(`   ⚠️  Sheet "${sheet}" ${reason === 'not-found' ? 'not found' : 'has no year in its name or amount column'}, skipping...`);
+  }
+  const skipped = report.skippedRows.length;
+  console.log(`   Imported ${report.imported} grants, skipped ${skipped} row${skipped === 1 ? '' : 's'}`);
+  for (const reason of SKIP_REASONS) {
+    if (report.summary[reason] > 0) {
+      console.log(`   ${reason.padEnd(22)} ${String(report.summary[reason]).padStart(6)}`);
+    }
+  }
+}
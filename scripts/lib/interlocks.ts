@@ -0,0 +1,86 @@
+/**
+ * Board interlocks: pairs of organizations that list the same officer,
+ * director or trustee on their returns.
+ *
+ * Returns carry no person identifiers, so people are matched by normalized
+ * name. A very common name can therefore link unrelated boards; names listed
+ * by more than MAX_BOARDS_PER_NAME organizations are ignored for that reason,
+ * and single-word names are never matched.
+ */
+
+import type { Person } from './irs-xml';
+
+const MAX_BOARDS_PER_NAME = 15;
+
+// Honorifics, credentials and suffixes that vary between filings for the same person
+const NAME_NOISE = /\b(DR|MR|MRS|MS|MISS|REV|HON|PHD|MD|JD|ESQ|CPA|JR|SR|II|III|IV)\b/g;
+
+export interface InterlockPerson {
+  name: string;
+  sourceTitle?: string;
+  targetTitle?: string;
+}
+
+export interface Interlock {
+  source: string;
+  target: string;
+  people: InterlockPerson[];
+}
+
+export function normalizePersonName(name: string): string {
+  return name
+    .toUpperCase()
+    .replace(/[^A-Z ]+/g, ' ')
+    .replace(NAME_NOISE, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Link every pair of entities that share at least one person, strongest links first
+ */
+export function buildInterlocks(entities: Array<{ id: string; people?: Person[] }>): Interlock[] {
+  // Normalized name -> entity id -> the person as that entity listed them
+  const boardsByName = new Map<string, Map<string, Person>>();
+
+  for (const entity of entities) {
+    for (const person of entity.people || []) {
+      const key = normalizePersonName(person.name);
+      if (!key.includes(' ')) continue;
+
+      if (!boardsByName.has(key)) {
+        boardsByName.set(key, new Map());
+      }
+      const boards = boardsByName.get(key)!;
+      if (!boards.has(entity.id)) {
+        boards.set(entity.id, person);
+      }
+    }
+  }
+
+  const interlocksByPair = new Map<string, Interlock>();
+
+  for (const boards of boardsByName.values()) {
+    if (boards.size < 2 || boards.size > MAX_BOARDS_PER_NAME) continue;
+
+    const ids = [...boards.keys()].sort();
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const pairKey = `${ids[i]}|${ids[j]}`;
+        if (!interlocksByPair.has(pairKey)) {
+          interlocksByPair.set(pairKey, { source: ids[i], target: ids[j], people: [] });
+        }
+
+        const sourcePerson = boards.get(ids[i])!;
+        const targetPerson = boards.get(ids[j])!;
+        interlocksByPair.get(pairKey)!.people.push({
+          name: sourcePerson.name,
+          sourceTitle: sourcePerson.title,
+          targetTitle: targetPerson.title
+        });
+      }
+    }
+  }
+
+  return [...interlocksByPair.values()].sort((a, b) => b.people.length - a.people.length);
+}
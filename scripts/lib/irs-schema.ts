@@ -0,0 +1,375 @@
+/**
+ * Where each field we extract lives in each version of the IRS e-file schema.
+ *
+ * Every return carries a `returnVersion` attribute (e.g. 2023v4.0). The IRS
+ * renamed most elements in the 2013 schemas (BusinessNameLine1 became
+ * BusinessNameLine1Txt, Amount became Amt, ...), so each schema family gets its
+ * own table of candidate paths per field, tried in order. Reads go through a
+ * FieldReader, which notes returns with a version no table covers and expected
+ * fields that came back empty, so gaps in the tables show up in the build's
+ * schema report instead of as silent zeros.
+ */
+
+// Candidate element paths for one field, relative to the node it is read from
+type FieldPaths = string[];
+
+/**
+ * Field paths for the 2013 and later schemas.
+ *
+ * Key prefixes name the node a field is read from: `header` (ReturnHeader),
+ * `pf` (IRS990PF), `990` (IRS990), `ez` (IRS990EZ), `scheduleI`
+ * (IRS990ScheduleI), and the record-level `pfGrant`, `scheduleIGrant` and
+ * `person` (one row of a grant or officer table).
+ */
+const CURRENT_FIELDS = {
+  'header.ein': ['Filer/EIN'],
+  'header.name': ['Filer/BusinessName/BusinessNameLine1Txt', 'Filer/BusinessName/BusinessNameLine1'],
+  'header.address': ['Filer/USAddress/AddressLine1Txt', 'Filer/USAddress/AddressLine1'],
+  'header.city': ['Filer/USAddress/CityNm', 'Filer/USAddress/City'],
+  'header.state': ['Filer/USAddress/StateAbbreviationCd', 'Filer/USAddress/State'],
+  'header.taxYear': ['TaxYr'],
+  'header.taxPeriodBegin': ['TaxPeriodBeginDt'],
+  'header.taxPeriodEnd': ['TaxPeriodEndDt'],
+  'header.returnType': ['ReturnTypeCd'],
+  'header.returnTimestamp': ['ReturnTs'],
+
+  'pf.amended': ['AmendedReturnInd'],
+  'pf.totalAssets': ['Form990PFBalanceSheetsGrp/TotalAssetsEOYAmt', 'Form990PFBalanceSheetsGrp/TotalAssetsBOYAmt'],
+  'pf.totalRevenue': ['AnalysisOfRevenueAndExpenses/TotalRevAndExpnssAmt'],
+  'pf.grantsPaid': [
+    'SupplementaryInformationGrp/GrantOrContributionPdDurYrGrp',
+    'GrantOrContributionPdDurYrGrp',
+    'GrantOrContribPaidDuringYear'
+  ],
+  'pf.commitments': ['SupplementaryInformationGrp/GrantOrContriApprvForFutGrp', 'GrantOrContriApprvForFutGrp'],
+  'pf.people': ['OfficerDirTrstKeyEmplInfoGrp/OfficerDirTrstKeyEmplGrp'],
+
+  'pfGrant.recipientName': ['RecipientBusinessName/BusinessNameLine1Txt', 'RecipientPersonNm', 'RecipientOrganizationName'],
+  'pfGrant.recipientEIN': ['RecipientEIN'],
+  'pfGrant.amount': ['Amt', 'Amount', 'CashGrantAmt'],
+  'pfGrant.city': ['RecipientUSAddress/CityNm'],
+  'pfGrant.state': ['RecipientUSAddress/StateAbbreviationCd'],
+  'pfGrant.zip': ['RecipientUSAddress/ZIPCd'],
+  'pfGrant.purpose': ['GrantOrContributionPurposeTxt'],
+  'pfGrant.relationship': ['RecipientRelationshipTxt'],
+  'pfGrant.foundationStatus': ['RecipientFoundationStatusTxt'],
+
+  '990.amended': ['AmendedReturnInd'],
+  '990.address': ['PrincipalOfficeUSAddress/AddressLine1Txt', 'PrincipalOfficeUSAddress/AddressLine1'],
+  '990.city': ['PrincipalOfficeUSAddress/CityNm', 'PrincipalOfficeUSAddress/City'],
+  '990.state': ['PrincipalOfficeUSAddress/StateAbbreviationCd', 'PrincipalOfficeUSAddress/State'],
+  '990.totalAssets': ['TotalAssetsEOYAmt', 'Form990PartVIISectionAGrp/TotalAssetsEOYAmt'],
+  '990.totalRevenue': ['CYTotalRevenueAmt', 'TotalRevenueCurrentYearAmt'],
+  '990.people': ['Form990PartVIISectionAGrp'],
+
+  'ez.amended': ['AmendedReturnInd'],
+  'ez.totalAssets': ['Form990TotalAssetsGrp/EOYAmt', 'Form990TotalAssetsGrp/BOYAmt'],
+  'ez.totalRevenue': ['TotalRevenueAmt'],
+  'ez.people': ['OfficerDirectorTrusteeEmplGrp'],
+
+  'scheduleI.grants': ['RecipientTable'],
+
+  'scheduleIGrant.recipientName': ['RecipientBusinessName/BusinessNameLine1Txt', 'RecipientPersonNm'],
+  'scheduleIGrant.recipientEIN': ['RecipientEIN'],
+  'scheduleIGrant.amount': ['CashGrantAmt'],
+  'scheduleIGrant.city': ['USAddress/CityNm', 'ForeignAddress/CityNm'],
+  'scheduleIGrant.state': ['USAddress/StateAbbreviationCd', 'ForeignAddress/StateAbbreviationCd'],
+  'scheduleIGrant.zip': ['USAddress/ZIPCd', 'ForeignAddress/ZIPCd'],
+  'scheduleIGrant.purpose': ['PurposeOfGrantTxt'],
+  'scheduleIGrant.ircSection': ['IRCSectionDesc'],
+
+  'person.name': ['PersonNm', 'BusinessName/BusinessNameLine1Txt'],
+  'person.title': ['TitleTxt'],
+  'person.hoursPerWeek': ['AverageHoursPerWeekRt', 'AverageHrsPerWkDevotedToPosRt'],
+  'person.compensation': ['ReportableCompFromOrgAmt', 'CompensationAmt'],
+  'person.relatedCompensation': ['ReportableCompFromRltdOrgAmt'],
+  'person.otherCompensation': ['OtherCompensationAmt'],
+  'person.benefits': ['EmployeeBenefitProgramAmt'],
+  'person.expenseAccount': ['ExpenseAccountOtherAllwncAmt'],
+  'person.officer': ['OfficerInd'],
+  'person.director': ['IndividualTrusteeOrDirectorInd'],
+  'person.institutionalTrustee': ['InstitutionalTrusteeInd'],
+  'person.keyEmployee': ['KeyEmployeeInd'],
+  'person.highestCompensated': ['HighestCompensatedEmployeeInd'],
+  'person.former': ['FormerOfcrDirectorTrusteeInd'],
+} satisfies Record<string, FieldPaths>;
+
+export type FieldKey = keyof typeof CURRENT_FIELDS;
+type FieldMap = Record<FieldKey, FieldPaths>;
+
+/**
+ * Field paths for the 2009–2012 schemas, before the 2013 renaming
+ */
+const LEGACY_FIELDS: FieldMap = {
+  'header.ein': ['Filer/EIN'],
+  'header.name': ['Filer/Name/BusinessNameLine1', 'Filer/BusinessName/BusinessNameLine1'],
+  'header.address': ['Filer/USAddress/AddressLine1'],
+  'header.city': ['Filer/USAddress/City'],
+  'header.state': ['Filer/USAddress/State'],
+  'header.taxYear': ['TaxYear'],
+  'header.taxPeriodBegin': ['TaxPeriodBeginDate'],
+  'header.taxPeriodEnd': ['TaxPeriodEndDate'],
+  'header.returnType': ['ReturnType'],
+  'header.returnTimestamp': ['Timestamp'],
+
+  'pf.amended': ['AmendedReturn'],
+  'pf.totalAssets': ['Form990PFBalanceSheets/TotalAssetsEOY', 'Form990PFBalanceSheets/TotalAssetsBOY'],
+  'pf.totalRevenue': ['AnalysisOfRevenueAndExpenses/TotalRevenueAndExpenses'],
+  'pf.grantsPaid': ['SupplementaryInformation/GrantOrContriPaidDuringYear', 'SupplementaryInformation/GrantOrContributionPaidDuringYear'],
+  'pf.commitments': ['SupplementaryInformation/GrantOrContriApprvForFuture', 'SupplementaryInformation/GrantOrContriApprovedForFuture'],
+  'pf.people': ['OfficerDirTrstKeyEmplInfo/OfficerDirTrstKeyEmpl'],
+
+  'pfGrant.recipientName': ['RecipientBusinessName/BusinessNameLine1', 'RecipientPersonName'],
+  'pfGrant.recipientEIN': ['RecipientEIN'],
+  'pfGrant.amount': ['Amount'],
+  'pfGrant.city': ['RecipientUSAddress/City'],
+  'pfGrant.state': ['RecipientUSAddress/State'],
+  'pfGrant.zip': ['RecipientUSAddress/ZIPCode'],
+  'pfGrant.purpose': ['PurposeOfGrantOrContribution'],
+  'pfGrant.relationship': ['RecipientRelationship'],
+  'pfGrant.foundationStatus': ['RecipientFoundationStatus'],
+
+  '990.amended': ['AmendedReturn'],
+  '990.address': ['PrincipalOfficeUSAddress/AddressLine1'],
+  '990.city': ['PrincipalOfficeUSAddress/City'],
+  '990.state': ['PrincipalOfficeUSAddress/State'],
+  '990.totalAssets': ['TotalAssetsEOY'],
+  '990.totalRevenue': ['TotalRevenueCurrentYear'],
+  '990.people': ['Form990PartVIISectionA'],
+
+  'ez.amended': ['AmendedReturn'],
+  'ez.totalAssets': ['TotalAssetsEOY', 'TotalAssetsBOY'],
+  'ez.totalRevenue': ['TotalRevenue'],
+  'ez.people': ['OfficerDirectorTrusteeKeyEmpl'],
+
+  'scheduleI.grants': ['RecipientTable'],
+
+  'scheduleIGrant.recipientName': ['RecipientNameBusiness/BusinessNameLine1', 'RecipientPersonName'],
+  'scheduleIGrant.recipientEIN': ['EINOfRecipient'],
+  'scheduleIGrant.amount': ['AmountOfCashGrant'],
+  'scheduleIGrant.city': ['AddressUS/City', 'AddressForeign/City'],
+  'scheduleIGrant.state': ['AddressUS/State', 'AddressForeign/ProvinceOrState'],
+  'scheduleIGrant.zip': ['AddressUS/ZIPCode', 'AddressForeign/PostalCode'],
+  'scheduleIGrant.purpose': ['PurposeOfGrant'],
+  'scheduleIGrant.ircSection': ['IRCSection'],
+
+  'person.name': ['NamePerson', 'PersonName', 'BusinessName/BusinessNameLine1'],
+  'person.title': ['Title'],
+  'person.hoursPerWeek': ['AverageHoursPerWeek', 'AverageHrsPerWkDevotedToPos'],
+  'person.compensation': ['ReportableCompFromOrganization', 'Compensation'],
+  'person.relatedCompensation': ['ReportableCompFromRelatedOrgs'],
+  'person.otherCompensation': ['OtherCompensation'],
+  'person.benefits': ['ContriToEmplBenefitPlansEtc', 'EmployeeBenefitProgram'],
+  'person.expenseAccount': ['ExpenseAccountOtherAllowances'],
+  'person.officer': ['Officer'],
+  'person.director': ['IndividualTrusteeOrDirector'],
+  'person.institutionalTrustee': ['InstitutionalTrustee'],
+  'person.keyEmployee': ['KeyEmployee'],
+  'person.highestCompensated': ['HighestCompensatedEmployee'],
+  'person.former': ['Former'],
+};
+
+interface SchemaMapping {
+  name: string;
+  firstYear: number; // Schema years (the part of returnVersion before the 'v') this table covers
+  lastYear: number;
+  fields: FieldMap;
+}
+
+// Newest first: versions no table covers are read with the first one
+const SCHEMA_MAPPINGS: SchemaMapping[] = [
+  { name: '2013+', firstYear: 2013, lastYear: 2025, fields: CURRENT_FIELDS },
+  { name: '2009-2012', firstYear: 2009, lastYear: 2012, fields: LEGACY_FIELDS },
+];
+
+/**
+ * Fields every return (or table row) of the form should have. Coming back
+ * empty usually means the mapping for that version is missing a path.
+ */
+const EXPECTED_FIELDS = new Set<FieldKey>([
+  'header.ein',
+  'header.name',
+  'header.taxYear',
+  'header.taxPeriodBegin',
+  'header.taxPeriodEnd',
+  'header.returnType',
+  'pf.totalAssets',
+  'pf.totalRevenue',
+  'pfGrant.recipientName',
+  'pfGrant.amount',
+  '990.totalAssets',
+  '990.totalRevenue',
+  'ez.totalAssets',
+  'ez.totalRevenue',
+  'scheduleIGrant.recipientName',
+  'scheduleIGrant.amount',
+  'person.name',
+]);
+
+// The form element each form-level key prefix is read from
+const FORM_ELEMENTS: Record<string, string> = {
+  pf: 'IRS990PF',
+  '990': 'IRS990',
+  ez: 'IRS990EZ',
+  scheduleI: 'IRS990ScheduleI',
+};
+
+/**
+ * What one return's reads found: its schema version, whether a table covers
+ * it, and which expected fields were empty
+ */
+export interface SchemaCheck {
+  objectId: string;
+  returnVersion: string;
+  mapped: boolean;
+  emptyFields: FieldKey[];
+}
+
+export function mappingFor(returnVersion: string | undefined): { mapping: SchemaMapping; mapped: boolean } {
+  const schemaYear = parseInt(/^(\d{4})v/.exec(returnVersion ?? '')?.[1] ?? '', 10);
+  const mapping = SCHEMA_MAPPINGS.find(m => schemaYear >= m.firstYear && schemaYear <= m.lastYear);
+  return mapping ? { mapping, mapped: true } : { mapping: SCHEMA_MAPPINGS[0], mapped: false };
+}
+
+// The nodes at a path in an xml2js-shaped tree (every child is an array)
+function resolvePath(node: any, fieldPath: string): any[] | undefined {
+  let nodes: any[] | undefined = [node];
+  for (const part of fieldPath.split('/')) {
+    const parent: any = nodes?.[0];
+    nodes = parent && typeof parent === 'object' ? parent[part] : undefined;
+  }
+  return Array.isArray(nodes) && nodes.length > 0 ? nodes : undefined;
+}
+
+// Text of a leaf, whether it had attributes (an object with `_`) or not
+function leafText(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (value && typeof value === 'object' && typeof (value as any)._ === 'string') return (value as any)._;
+  return undefined;
+}
+
+/**
+ * First non-empty text found at any of the paths
+ */
+export function readFieldText(node: any, paths: FieldPaths): string | undefined {
+  for (const fieldPath of paths) {
+    const text = leafText(resolvePath(node, fieldPath)?.[0]);
+    if (text !== undefined && text !== '') return text;
+  }
+  return undefined;
+}
+
+/**
+ * Every element path the field tables read below a form element, for the
+ * streaming parser's keep list. Header fields are covered by keeping the whole
+ * header, and record-level fields by keeping each table's rows whole.
+ */
+export function formFieldPaths(): string[] {
+  const paths = new Set<string>();
+  for (const { fields } of SCHEMA_MAPPINGS) {
+    for (const [key, fieldPaths] of Object.entries(fields)) {
+      const formElement = FORM_ELEMENTS[key.split('.')[0]];
+      if (!formElement) continue;
+      for (const fieldPath of fieldPaths) {
+        paths.add(`Return/ReturnData/${formElement}/${fieldPath}`);
+      }
+    }
+  }
+  return [...paths];
+}
+
+export interface FieldReader {
+  text(node: any, key: FieldKey): string | undefined;
+  records(node: any, key: FieldKey): any[];
+  flag(node: any, key: FieldKey): boolean;
+  check(): SchemaCheck;
+}
+
+/**
+ * Read fields from one parsed return using the table for its schema version
+ */
+export function createFieldReader(data: any, objectId = ''): FieldReader {
+  const returnVersion = leafText(data?.Return?.$?.returnVersion) ?? '';
+  const { mapping, mapped } = mappingFor(returnVersion);
+  const emptyFields = new Set<FieldKey>();
+
+  return {
+    text(node, key) {
+      const text = readFieldText(node, mapping.fields[key]);
+      if (text === undefined && EXPECTED_FIELDS.has(key)) emptyFields.add(key);
+      return text;
+    },
+
+    records(node, key) {
+      for (const fieldPath of mapping.fields[key]) {
+        const nodes = resolvePath(node, fieldPath);
+        if (nodes) return nodes;
+      }
+      return [];
+    },
+
+    flag(node, key) {
+      return mapping.fields[key].some(fieldPath => resolvePath(node, fieldPath) !== undefined);
+    },
+
+    check() {
+      return { objectId, returnVersion, mapped, emptyFields: [...emptyFields].sort() };
+    }
+  };
+}
+
+/**
+ * Schema coverage over many returns, stored per month in the build manifest
+ */
+export interface SchemaSummary {
+  returns: number;
+  versions: Record<string, number>; // returnVersion -> returns
+  unmappedVersions: Record<string, number>; // Versions no table covers (read with the newest table)
+  emptyFields: Record<string, {
+    count: number;
+    versions: Record<string, number>;
+    examples: string[]; // IRS object ids
+  }>;
+}
+
+const MAX_EXAMPLES = 5;
+
+export function createSchemaSummary(): SchemaSummary {
+  return { returns: 0, versions: {}, unmappedVersions: {}, emptyFields: {} };
+}
+
+export function addSchemaCheck(summary: SchemaSummary, check: SchemaCheck): void {
+  const version = check.returnVersion || '(none)';
+  summary.returns++;
+  summary.versions[version] = (summary.versions[version] ?? 0) + 1;
+  if (!check.mapped) {
+    summary.unmappedVersions[version] = (summary.unmappedVersions[version] ?? 0) + 1;
+  }
+
+  for (const key of check.emptyFields) {
+    const field = summary.emptyFields[key] ??= { count: 0, versions: {}, examples: [] };
+    field.count++;
+    field.versions[version] = (field.versions[version] ?? 0) + 1;
+    if (field.examples.length < MAX_EXAMPLES) field.examples.push(check.objectId);
+  }
+}
+
+export function mergeSchemaSummaries(summaries: SchemaSummary[]): SchemaSummary {
+  const merged = createSchemaSummary();
+  const addCounts = (target: Record<string, number>, source: Record<string, number>) => {
+    for (const [key, count] of Object.entries(source)) target[key] = (target[key] ?? 0) + count;
+  };
+
+  for (const summary of summaries) {
+    merged.returns += summary.returns;
+    addCounts(merged.versions, summary.versions);
+    addCounts(merged.unmappedVersions, summary.unmappedVersions);
+    for (const [key, field] of Object.entries(summary.emptyFields)) {
+      const target = merged.emptyFields[key] ??= { count: 0, versions: {}, examples: [] };
+      target.count += field.count;
+      addCounts(target.versions, field.versions);
+      target.examples.push(...field.examples.slice(0, MAX_EXAMPLES - target.examples.length));
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,638 @@
+/**
+ * IRS e-file XML parsing for Form 990-PF, Form 990 and Form 990-EZ (with Schedule I).
+ *
+ * Files are read with a streaming SAX parser that only materializes the paths
+ * listed in KEEP_PATHS. The result has exactly the shape xml2js would produce
+ * for those paths (arrays for every child, plain strings for text-only leaves,
+ * attributes under `$`), so the extraction code below works the same on either
+ * parser. The legacy xml2js parser is kept for benchmarking and as a fallback.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import sax from 'sax';
+import { parseStringPromise } from 'xml2js';
+import {
+  createFieldReader,
+  formFieldPaths,
+  mappingFor,
+  readFieldText,
+  type FieldKey,
+  type FieldReader,
+  type SchemaCheck
+} from './irs-schema';
+import type { FilingIssue } from './quarantine';
+
+export type XmlParserKind = 'stream' | 'xml2js';
+
+// Bump whenever extracted output changes so the build manifest reprocesses cached months
+export const PARSER_VERSION = 10;
+
+export interface Grant {
+  recipientEIN: string;
+  recipientName: string;
+  amount: number;
+  year: number; // Same as calendarYear
+  calendarYear: number;
+  fiscalYear: number;
+  taxPeriodBegin?: string;
+  taxPeriodEnd?: string;
+  recipientCity?: string;
+  recipientState?: string;
+  recipientZip?: string;
+  purpose?: string; // GrantOrContributionPurposeTxt (990-PF) or PurposeOfGrantTxt (Schedule I)
+  recipientRelationship?: string; // Relationship to a foundation manager or substantial contributor (990-PF)
+  recipientFoundationStatus?: string; // e.g. PC, POF (990-PF)
+  ircSection?: string; // Recipient's IRC section, e.g. 501(C)(3) (Schedule I)
+}
+
+/**
+ * When a return's activity happened. A foundation on a July–June fiscal year
+ * straddles two calendar years, so both readings are kept and the UI picks one.
+ */
+export interface TaxPeriod {
+  taxPeriodBegin?: string; // TaxPeriodBeginDt, YYYY-MM-DD
+  taxPeriodEnd?: string; // TaxPeriodEndDt
+  calendarYear: number; // Calendar year holding most of the tax period
+  fiscalYear: number; // Year the tax period ends, e.g. 2024 for July 2023–June 2024
+}
+
+/**
+ * An officer, director, trustee or key employee listed on a return
+ * (990 Part VII Section A, 990-PF Part VIII, 990-EZ Part IV)
+ */
+export interface Person {
+  name: string;
+  title?: string;
+  year: number; // Tax year of the filing that listed them
+  hoursPerWeek?: number;
+  compensation: number; // Reportable compensation from the filer
+  relatedCompensation?: number; // From related organizations (990 only)
+  otherCompensation?: number; // Benefits, expense account and other compensation
+  roles?: string[]; // 990 only: officer, director, key employee, highest compensated
+}
+
+/**
+ * Which return a filing came from, used to resolve amended and duplicate returns
+ */
+export interface FilingInfo {
+  objectId: string; // IRS object id (the file name without _public.xml)
+  returnType: string; // 990PF, 990 or 990EZ
+  returnVersion?: string; // IRS schema version, e.g. 2023v4.0
+  taxPeriodBegin?: string;
+  taxPeriodEnd?: string;
+  returnTimestamp?: string; // ReturnTs: when the return was filed
+  amended: boolean;
+}
+
+export interface FoundationFiling {
+  funderEIN: string;
+  funderName: string;
+  grants: Grant[];
+  // Grants approved for future payment (990-PF Part XV line 3b), dated by the return that reported them
+  commitments?: Grant[];
+  people?: Person[];
+  metadata?: any;
+  filing?: FilingInfo;
+}
+
+export interface OrganizationFiling {
+  ein: string;
+  name: string;
+  metadata: any;
+  grants?: Grant[];
+  people?: Person[];
+  filing?: FilingInfo;
+}
+
+type PFResult = { type: 'pf'; data: FoundationFiling; schema: SchemaCheck; issues: FilingIssue[] };
+type OrgResult = { type: 'org'; data: OrganizationFiling; schema: SchemaCheck; issues: FilingIssue[] };
+// A 990-PF without grants, still counted in the schema and quarantine reports. Only its
+// identity is kept, so it can still supersede an earlier return for the same tax period.
+type EmptyResult = { type: 'empty'; data: FoundationFiling; schema: SchemaCheck; issues: FilingIssue[] };
+// A file that could not be parsed
+type FailedResult = { type: 'failed'; issues: FilingIssue[] };
+export type BatchResult = PFResult | OrgResult | EmptyResult | FailedResult | null;
+
+export interface ProcessXmlOptions {
+  process990: boolean;
+  parser?: XmlParserKind;
+}
+
+export interface ReadFilingOptions {
+  parser?: XmlParserKind;
+  // Stop reading as soon as the header shows a return type not in this list
+  returnTypes?: string[];
+}
+
+/**
+ * Every element path the parsers below read. Anything else is skipped while
+ * streaming. Paths below a form element come from the field tables in
+ * irs-schema.ts, so a new field only needs adding there.
+ */
+const KEEP_PATHS = [
+  'Return/ReturnHeader',
+  ...formFieldPaths(),
+];
+
+const KEEP = new Set(KEEP_PATHS);
+const ANCESTORS = new Set(
+  KEEP_PATHS.flatMap(p => {
+    const parts = p.split('/');
+    return parts.slice(0, -1).map((_, i) => parts.slice(0, i + 1).join('/'));
+  })
+);
+
+// 'keep' = inside a kept subtree, 'ancestor' = on the way to one, 'skip' = ignored
+type PathState = 'keep' | 'ancestor' | 'skip';
+
+interface Frame {
+  name: string;
+  path: string;
+  state: PathState;
+  obj: Record<string, any>;
+  text: string;
+  cdata: boolean;
+}
+
+/**
+ * Stream a file through SAX, building an xml2js-shaped tree of KEEP_PATHS only
+ */
+async function streamFilingXml(filePath: string, returnTypes?: string[]): Promise<any | null> {
+  const parser = sax.parser(true, {});
+  const stack: Frame[] = [];
+  const result: Record<string, any> = {};
+  let parseError: Error | null = null;
+  let skipped = false;
+
+  parser.onopentag = (node) => {
+    const parent = stack[stack.length - 1];
+    let state: PathState;
+    let nodePath = '';
+
+    if (parent && parent.state !== 'ancestor') {
+      state = parent.state;
+    } else {
+      nodePath = parent ? `${parent.path}/${node.name}` : node.name;
+      state = KEEP.has(nodePath) ? 'keep' : ANCESTORS.has(nodePath) ? 'ancestor' : 'skip';
+    }
+
+    const obj: Record<string, any> = {};
+    if (state !== 'skip' && Object.keys(node.attributes).length > 0) {
+      obj.$ = { ...node.attributes };
+    }
+    stack.push({ name: node.name, path: nodePath, state, obj, text: '', cdata: false });
+  };
+
+  parser.ontext = (text) => {
+    const frame = stack[stack.length - 1];
+    if (frame?.state === 'keep') frame.text += text;
+  };
+
+  parser.oncdata = (text) => {
+    const frame = stack[stack.length - 1];
+    if (frame?.state === 'keep') {
+      frame.text += text;
+      frame.cdata = true;
+    }
+  };
+
+  parser.onclosetag = () => {
+    const frame = stack.pop()!;
+    if (frame.state === 'skip') return;
+
+    // Same text/empty-element rules as xml2js with its default options
+    let value: any = frame.obj;
+    let emptyStr = '';
+    if (frame.state === 'keep') {
+      if (/^\s*$/.test(frame.text) && !frame.cdata) {
+        emptyStr = frame.text;
+      } else {
+        value._ = frame.text;
+        if (Object.keys(value).length === 1) value = frame.text;
+      }
+      if (typeof value === 'object' && Object.keys(value).length === 0) {
+        value = emptyStr;
+      }
+    }
+
+    const parent = stack[stack.length - 1];
+    if (!parent) {
+      result[frame.name] = value;
+      return;
+    }
+    if (!parent.obj[frame.name]) parent.obj[frame.name] = [];
+    parent.obj[frame.name].push(value);
+
+    // The header comes first, so unwanted return types can stop here
+    if (returnTypes && frame.path === 'Return/ReturnHeader') {
+      const { mapping } = mappingFor(parent.obj.$?.returnVersion);
+      const returnType = readFieldText(value, mapping.fields['header.returnType']);
+      if (returnType !== undefined && !returnTypes.includes(returnType.trim())) {
+        skipped = true;
+      }
+    }
+  };
+
+  parser.onerror = (error) => {
+    parseError = error;
+  };
+
+  const input = fs.createReadStream(filePath, { encoding: 'utf-8' });
+  try {
+    for await (const chunk of input) {
+      parser.write(chunk as string);
+      if (parseError) throw parseError;
+      if (skipped) return null;
+    }
+    parser.close();
+    if (parseError) throw parseError;
+  } finally {
+    input.destroy();
+  }
+
+  return result;
+}
+
+/**
+ * Read a filing into an xml2js-shaped object, or null if it was skipped by returnTypes
+ */
+export async function readFilingXml(filePath: string, options: ReadFilingOptions = {}): Promise<any | null> {
+  if (options.parser === 'xml2js') {
+    const xmlContent = fs.readFileSync(filePath, 'utf-8');
+    // Quick substring check to avoid parsing unwanted forms
+    if (options.returnTypes && !options.returnTypes.some(type => xmlContent.includes(`<IRS${type}`))) {
+      return null;
+    }
+    return parseStringPromise(xmlContent);
+  }
+  return streamFilingXml(filePath, options.returnTypes);
+}
+
+// Helper function to normalize EINs (remove dashes, trim whitespace)
+export function normalizeEIN(ein: string | undefined | null): string {
+  if (!ein) return '';
+  return ein.replace(/[^0-9]/g, '').trim();
+}
+
+// Trimmed text of an optional leaf element, or undefined so it is left out of the JSON
+function textField(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const text = value.replace(/\s+/g, ' ').trim();
+  return text || undefined;
+}
+
+
+// IRS object id of a filing: its file name without _public.xml
+export function objectIdOf(filePath: string): string {
+  return path.basename(filePath).replace(/(_public)?\.xml$/i, '');
+}
+
+const PERSON_ROLE_FLAGS: Array<[FieldKey, string]> = [
+  ['person.officer', 'officer'],
+  ['person.director', 'director'],
+  ['person.institutionalTrustee', 'institutional trustee'],
+  ['person.keyEmployee', 'key employee'],
+  ['person.highestCompensated', 'highest compensated'],
+  ['person.former', 'former']
+];
+
+function amountField(value: unknown): number | undefined {
+  if (typeof value !== 'string' || value.trim() === '') return undefined;
+  const amount = parseFloat(value);
+  return Number.isNaN(amount) ? undefined : amount;
+}
+
+/**
+ * Read the tax period from a return header. Falls back to TaxYr, then to the
+ * archive year, when the period dates are missing.
+ */
+function parseTaxPeriod(header: any, fallbackYear: number, fields: FieldReader): TaxPeriod {
+  const taxPeriodBegin = textField(fields.text(header, 'header.taxPeriodBegin'));
+  const taxPeriodEnd = textField(fields.text(header, 'header.taxPeriodEnd'));
+  const taxYear = parseInt(fields.text(header, 'header.taxYear') || fallbackYear.toString(), 10);
+
+  const begin = taxPeriodBegin ? Date.parse(taxPeriodBegin) : NaN;
+  const end = taxPeriodEnd ? Date.parse(taxPeriodEnd) : NaN;
+  const fiscalYear = Number.isNaN(end) ? taxYear : new Date(end).getUTCFullYear();
+  const calendarYear = Number.isNaN(begin) || Number.isNaN(end)
+    ? taxYear
+    : new Date((begin + end) / 2).getUTCFullYear();
+
+  return { taxPeriodBegin, taxPeriodEnd, calendarYear, fiscalYear };
+}
+
+/**
+ * Read the officer/director/trustee table of a 990, 990-PF or 990-EZ. The three
+ * forms use different element names for hours and compensation.
+ */
+function parsePeople(records: any[], year: number, fields: FieldReader): Person[] {
+  const people: Person[] = [];
+
+  for (const record of records) {
+    const name = textField(fields.text(record, 'person.name'));
+    if (!name) continue;
+
+    const roles = PERSON_ROLE_FLAGS
+      .filter(([key]) => fields.flag(record, key))
+      .map(([, role]) => role);
+    const otherCompensation = (amountField(fields.text(record, 'person.otherCompensation')) ?? 0) +
+                              (amountField(fields.text(record, 'person.benefits')) ?? 0) +
+                              (amountField(fields.text(record, 'person.expenseAccount')) ?? 0);
+
+    people.push({
+      name,
+      title: textField(fields.text(record, 'person.title')),
+      year,
+      hoursPerWeek: amountField(fields.text(record, 'person.hoursPerWeek')),
+      compensation: amountField(fields.text(record, 'person.compensation')) ?? 0,
+      relatedCompensation: amountField(fields.text(record, 'person.relatedCompensation')) || undefined,
+      otherCompensation: otherCompensation || undefined,
+      roles: roles.length > 0 ? roles : undefined
+    });
+  }
+
+  return people;
+}
+
+/**
+ * Read 990-PF Part XV grant records. The same layout is used for grants paid
+ * during the year and grants approved for future payment.
+ */
+function parse990PFGrantRecords(records: any[], period: TaxPeriod, fields: FieldReader): Grant[] {
+  const grants: Grant[] = [];
+
+  for (const recipient of records) {
+    const recipientName = fields.text(recipient, 'pfGrant.recipientName') || '';
+    const recipientEIN = fields.text(recipient, 'pfGrant.recipientEIN') || '';
+    const amount = parseFloat(fields.text(recipient, 'pfGrant.amount') || '0');
+
+    // Extract address information
+    const recipientCity = fields.text(recipient, 'pfGrant.city') || '';
+    const recipientState = fields.text(recipient, 'pfGrant.state') || '';
+    const recipientZip = fields.text(recipient, 'pfGrant.zip') || '';
+
+    if (recipientName && amount > 0) {
+      grants.push({
+        recipientEIN,
+        recipientName,
+        amount,
+        year: period.calendarYear,
+        ...period,
+        recipientCity,
+        recipientState,
+        recipientZip,
+        purpose: textField(fields.text(recipient, 'pfGrant.purpose')),
+        recipientRelationship: textField(fields.text(recipient, 'pfGrant.relationship')),
+        recipientFoundationStatus: textField(fields.text(recipient, 'pfGrant.foundationStatus'))
+      });
+    }
+  }
+
+  return grants;
+}
+
+/**
+ * Extract grants and metadata from a parsed 990-PF
+ */
+export function parse990PF(data: any, year: number, fields: FieldReader = createFieldReader(data)): FoundationFiling | null {
+  const root = data.Return?.ReturnData?.[0];
+  const header = data.Return?.ReturnHeader?.[0];
+  if (!root || !header || !root.IRS990PF) return null;
+
+  const irs990pf = root.IRS990PF[0];
+  const funderEIN = normalizeEIN(fields.text(header, 'header.ein'));
+  const funderName = fields.text(header, 'header.name') || `Foundation ${funderEIN}`;
+  // Date grants by the filing's own tax period - this is when they actually occurred
+  const period = parseTaxPeriod(header, year, fields);
+
+  const metadata = {
+    address: fields.text(header, 'header.address'),
+    city: fields.text(header, 'header.city'),
+    state: fields.text(header, 'header.state'),
+    assets: parseFloat(fields.text(irs990pf, 'pf.totalAssets') || '0'),
+    revenue: parseFloat(fields.text(irs990pf, 'pf.totalRevenue') || '0')
+  };
+
+  const grants = parse990PFGrantRecords(fields.records(irs990pf, 'pf.grantsPaid'), period, fields);
+  const commitments = parse990PFGrantRecords(fields.records(irs990pf, 'pf.commitments'), period, fields);
+
+  const people = parsePeople(fields.records(irs990pf, 'pf.people'), period.calendarYear, fields);
+
+  return { funderEIN, funderName, grants, commitments, people, metadata };
+}
+
+/**
+ * Read Schedule I (grants to domestic organizations) attached to a Form 990 or 990-EZ
+ */
+function parseScheduleIGrants(root: any, period: TaxPeriod, fields: FieldReader): Grant[] {
+  const grants: Grant[] = [];
+  const scheduleI = root.IRS990ScheduleI?.[0];
+  const recipientTables = scheduleI ? fields.records(scheduleI, 'scheduleI.grants') : [];
+
+  for (const recipient of recipientTables) {
+    const recipientName = fields.text(recipient, 'scheduleIGrant.recipientName') || '';
+    const recipientEIN = normalizeEIN(fields.text(recipient, 'scheduleIGrant.recipientEIN'));
+    const amount = parseFloat(fields.text(recipient, 'scheduleIGrant.amount') || '0');
+
+    // Extract address information (US or foreign)
+    const recipientCity = fields.text(recipient, 'scheduleIGrant.city') || '';
+    const recipientState = fields.text(recipient, 'scheduleIGrant.state') || '';
+    const recipientZip = fields.text(recipient, 'scheduleIGrant.zip') || '';
+
+    if (recipientName && amount > 0) {
+      grants.push({
+        recipientEIN,
+        recipientName,
+        amount,
+        year: period.calendarYear,
+        ...period,
+        recipientCity,
+        recipientState,
+        recipientZip,
+        purpose: textField(fields.text(recipient, 'scheduleIGrant.purpose')),
+        ircSection: textField(fields.text(recipient, 'scheduleIGrant.ircSection'))
+      });
+    }
+  }
+
+  return grants;
+}
+
+/**
+ * Extract organization metadata and Schedule I grants (if present) from a parsed Form 990
+ */
+export function parse990(data: any, year: number, fields: FieldReader = createFieldReader(data)): OrganizationFiling | null {
+  const root = data.Return?.ReturnData?.[0];
+  const header = data.Return?.ReturnHeader?.[0];
+  if (!root || !header || !root.IRS990 || root.IRS990PF) return null;
+
+  const irs990 = root.IRS990[0];
+  const ein = fields.text(header, 'header.ein');
+  const name = fields.text(header, 'header.name') || `Organization ${ein}`;
+
+  // Filer address, or the principal office when the header has none
+  const metadata = {
+    address: fields.text(header, 'header.address') || fields.text(irs990, '990.address'),
+    city: fields.text(header, 'header.city') || fields.text(irs990, '990.city'),
+    state: fields.text(header, 'header.state') || fields.text(irs990, '990.state'),
+    assets: parseFloat(fields.text(irs990, '990.totalAssets') || '0'),
+    revenue: parseFloat(fields.text(irs990, '990.totalRevenue') || '0')
+  };
+
+  // Parse Schedule I grants (if present), dated by the filing's tax period rather than the archive year
+  const period = parseTaxPeriod(header, year, fields);
+  const grants = parseScheduleIGrants(root, period, fields);
+  const people = parsePeople(fields.records(irs990, '990.people'), period.calendarYear, fields);
+
+  return { ein: normalizeEIN(ein), name, metadata, grants: grants.length > 0 ? grants : undefined, people };
+}
+
+/**
+ * Extract organization metadata and Schedule I grants (if present) from a parsed Form 990-EZ.
+ * Small organizations file the EZ, so this is often the only financial data we have for them.
+ */
+export function parse990EZ(data: any, year: number, fields: FieldReader = createFieldReader(data)): OrganizationFiling | null {
+  const root = data.Return?.ReturnData?.[0];
+  const header = data.Return?.ReturnHeader?.[0];
+  if (!root || !header || !root.IRS990EZ) return null;
+
+  const irs990ez = root.IRS990EZ[0];
+  const ein = fields.text(header, 'header.ein');
+  const name = fields.text(header, 'header.name') || `Organization ${ein}`;
+
+  const metadata = {
+    address: fields.text(header, 'header.address'),
+    city: fields.text(header, 'header.city'),
+    state: fields.text(header, 'header.state'),
+    assets: parseFloat(fields.text(irs990ez, 'ez.totalAssets') || '0'),
+    revenue: parseFloat(fields.text(irs990ez, 'ez.totalRevenue') || '0')
+  };
+
+  const period = parseTaxPeriod(header, year, fields);
+  const grants = parseScheduleIGrants(root, period, fields);
+  const people = parsePeople(fields.records(irs990ez, 'ez.people'), period.calendarYear, fields);
+
+  return { ein: normalizeEIN(ein), name, metadata, grants: grants.length > 0 ? grants : undefined, people };
+}
+
+/**
+ * Identify the return a parsed file came from
+ */
+export function parseFilingInfo(data: any, filePath: string, fields: FieldReader = createFieldReader(data)): FilingInfo {
+  const header = data.Return?.ReturnHeader?.[0];
+  const root = data.Return?.ReturnData?.[0];
+  const amended = root?.IRS990PF ? fields.flag(root.IRS990PF[0], 'pf.amended')
+    : root?.IRS990 ? fields.flag(root.IRS990[0], '990.amended')
+    : root?.IRS990EZ ? fields.flag(root.IRS990EZ[0], 'ez.amended')
+    : false;
+
+  return {
+    objectId: objectIdOf(filePath),
+    returnType: textField(fields.text(header, 'header.returnType')) || '',
+    returnVersion: fields.check().returnVersion || undefined,
+    taxPeriodBegin: textField(fields.text(header, 'header.taxPeriodBegin')),
+    taxPeriodEnd: textField(fields.text(header, 'header.taxPeriodEnd')),
+    returnTimestamp: textField(fields.text(header, 'header.returnTimestamp')),
+    amended
+  };
+}
+
+/**
+ * Flag a parsed return that kept less than it should have: no filer EIN, grant
+ * records that were all unreadable, or grants with negative amounts
+ */
+function findFilingIssues(
+  objectId: string,
+  ein: string,
+  grantRecords: any[],
+  amountKey: FieldKey,
+  grantsKept: number,
+  fields: FieldReader
+): FilingIssue[] {
+  const issues: FilingIssue[] = [];
+
+  if (!ein) {
+    issues.push({ objectId, errorClass: 'missing-ein', message: 'No filer EIN in the return header' });
+  }
+
+  const negativeAmounts = grantRecords
+    .map(record => parseFloat(fields.text(record, amountKey) || '0'))
+    .filter(amount => amount < 0);
+  if (negativeAmounts.length > 0) {
+    const total = negativeAmounts.reduce((sum, amount) => sum + amount, 0);
+    issues.push({
+      objectId,
+      errorClass: 'negative-amount',
+      message: `${negativeAmounts.length} grant records with negative amounts (total ${total}) skipped`
+    });
+  }
+
+  if (grantRecords.length > 0 && grantsKept === 0) {
+    issues.push({
+      objectId,
+      errorClass: 'grants-dropped',
+      message: `${grantRecords.length} grant records, none with a recipient name and a positive amount`
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Parse one XML file: a 990-PF with grants, a Form 990 or 990-EZ (if process990), or
+ * just the checks and filing identity of a 990-PF without grants. Files that fail to parse come back
+ * as 'failed' with the error; null means the file is not a return we process.
+ */
+export async function processXmlFile(
+  filePath: string,
+  year: number,
+  options: ProcessXmlOptions
+): Promise<BatchResult> {
+  const objectId = objectIdOf(filePath);
+  try {
+    const data = await readFilingXml(filePath, {
+      parser: options.parser,
+      returnTypes: options.process990 ? ['990PF', '990', '990EZ'] : ['990PF']
+    });
+    if (!data) return null;
+
+    const fields = createFieldReader(data, objectId);
+    const root = data.Return?.ReturnData?.[0];
+
+    // Try parsing as 990-PF first
+    const pfResult = parse990PF(data, year, fields);
+    if (pfResult) {
+      const irs990pf = root.IRS990PF[0];
+      const grantRecords = [...fields.records(irs990pf, 'pf.grantsPaid'), ...fields.records(irs990pf, 'pf.commitments')];
+      const grantsKept = pfResult.grants.length + (pfResult.commitments?.length ?? 0);
+      const issues = findFilingIssues(objectId, pfResult.funderEIN, grantRecords, 'pfGrant.amount', grantsKept, fields);
+
+      // 990-PF with no grants or commitments, don't try to parse as 990
+      const filing = parseFilingInfo(data, filePath, fields);
+      if (grantsKept === 0) {
+        const identity = { funderEIN: pfResult.funderEIN, funderName: pfResult.funderName, grants: [], filing };
+        return { type: 'empty', data: identity, schema: fields.check(), issues };
+      }
+      return { type: 'pf', data: { ...pfResult, filing }, schema: fields.check(), issues };
+    }
+
+    // If process990 is enabled and it wasn't a 990-PF, try parsing as 990 or 990-EZ
+    if (options.process990) {
+      const orgResult = parse990(data, year, fields) || parse990EZ(data, year, fields);
+      if (orgResult) {
+        const scheduleI = root.IRS990ScheduleI?.[0];
+        const grantRecords = scheduleI ? fields.records(scheduleI, 'scheduleI.grants') : [];
+        const issues = findFilingIssues(objectId, orgResult.ein, grantRecords, 'scheduleIGrant.amount', orgResult.grants?.length ?? 0, fields);
+        const filing = parseFilingInfo(data, filePath, fields);
+        return { type: 'org', data: { ...orgResult, filing }, schema: fields.check(), issues };
+      }
+    }
+
+    return null;
+  } catch (error: any) {
+    console.warn(`  ⚠️  Skipping file ${path.basename(filePath)} due to parsing error: ${error.message}`);
+    const message = String(error.message).split('\n')[0];
+    return { type: 'failed', issues: [{ objectId, errorClass: 'parse-error', message }] };
+  }
+}
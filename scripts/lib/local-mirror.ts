@@ -0,0 +1,82 @@
+/**
+ * Local mirror of the IRS e-file XML bulk data.
+ *
+ * Lets the build run without network access (air-gapped environments, fixture
+ * corpora) by resolving each year/month to files on disk instead of a download.
+ *
+ * For year Y and month M the mirror is searched in this order:
+ * 1. Y_TEOS_XML_MMA.zip in <dir>/ or <dir>/Y/  (a wget mirror of the IRS site)
+ * 2. An extracted archive directory <dir>/Y_TEOS_XML_MMA/ or <dir>/Y/Y_TEOS_XML_MMA/
+ * 3. Loose .xml files in <dir>/Y/MM/ or <dir>/Y/M/  (hand-picked fixtures)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+export type LocalMonthSource =
+  | { kind: 'zip'; path: string }
+  | { kind: 'extracted'; path: string }
+  | { kind: 'loose'; path: string };
+
+/**
+ * IRS archive base name for a month, e.g. 2024_TEOS_XML_05A
+ */
+export function irsMonthlyArchiveName(year: number, month: number): string {
+  return `${year}_TEOS_XML_${String(month).padStart(2, '0')}A`;
+}
+
+/**
+ * IRS download URL for a month's archive
+ */
+export function irsMonthlyZipUrl(year: number, month: number): string {
+  return `https://apps.irs.gov/pub/epostcard/990/xml/${year}/${irsMonthlyArchiveName(year, month)}.zip`;
+}
+
+function isDirectory(dirPath: string): boolean {
+  return fs.existsSync(dirPath) && fs.statSync(dirPath).isDirectory();
+}
+
+function containsXml(dirPath: string): boolean {
+  return isDirectory(dirPath) && fs.readdirSync(dirPath).some(f => f.toLowerCase().endsWith('.xml'));
+}
+
+/**
+ * Find the files for one month in a local mirror, or null if the month is not mirrored
+ */
+export function findLocalMonthSource(mirrorDir: string, year: number, month: number): LocalMonthSource | null {
+  const archiveName = irsMonthlyArchiveName(year, month);
+  const yearDir = path.join(mirrorDir, String(year));
+
+  for (const dir of [mirrorDir, yearDir]) {
+    const zipPath = path.join(dir, `${archiveName}.zip`);
+    if (fs.existsSync(zipPath)) {
+      return { kind: 'zip', path: zipPath };
+    }
+  }
+
+  for (const dir of [mirrorDir, yearDir]) {
+    const extractedPath = path.join(dir, archiveName);
+    if (isDirectory(extractedPath)) {
+      return { kind: 'extracted', path: extractedPath };
+    }
+  }
+
+  for (const monthDirName of [String(month).padStart(2, '0'), String(month)]) {
+    const loosePath = path.join(yearDir, monthDirName);
+    if (containsXml(loosePath)) {
+      return { kind: 'loose', path: loosePath };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Short, stable tag for a mirror directory so its month caches never mix
+ * with the IRS download caches or with another mirror's
+ */
+export function localMirrorCacheTag(mirrorDir: string): string {
+  const hash = createHash('sha1').update(path.resolve(mirrorDir)).digest('hex').slice(0, 8);
+  return `local-${hash}`;
+}
@@ -0,0 +1,467 @@
+/**
+ * The network around one or more central funders: the funders, their grantees,
+ * the other funders of those grantees and the fiscal sponsors of sponsored
+ * grantees. Several central funders (up to ten) show a funder collaborative or
+ * a peer comparison; a grantee two of them fund is one node with a link from each.
+ *
+ * Each central funder's grants come from one of two sources:
+ *
+ *   internal grants  the funder's own records (e.g. the HLF master grants list), which
+ *                    only name the grantee; each name is matched to an organization
+ *                    with the grantee overrides, then entity resolution
+ *   IRS returns      the grants on the funder's 990-PF filings, filed under the
+ *                    recipient's EIN or the organization its placeholder was merged into
+ *
+ * Internal grants replace the funder's IRS grants rather than adding to them,
+ * since they are the same grants. Either way every node is keyed by EIN (or a
+ * no_ein_ placeholder for grantees found nowhere else), and links are typed
+ *
+ *   central-grant    central funder -> grantee
+ *   other-funder     another funder -> grantee
+ *   sponsored-grant  another funder -> fiscally sponsored project, paid to its sponsor
+ */
+
+import { recipientKey, type DatasetView, type Organization, type ReceivedGrant } from './complete-dataset';
+import { createRecipientMatcher, type MatchOptions, type MatchResult, type RecipientMatcher, type RecipientProfile, type ScoredCandidate } from './entity-resolution';
+import { placeholderKey, type GranteeOverrides } from './grantee-overrides';
+import { attributeSponsorGrants, type AttributedGrant, type FiscalSponsorship } from './fiscal-sponsorship';
+import type { BmfRegistry } from './eo-bmf';
+import type { Grant } from './irs-xml';
+import type { NetworkLink, NetworkNode } from '../../src/services/networkData';
+
+/**
+ * A grant from the central funder's own records
+ */
+export interface InternalGrant {
+  organization: string;
+  amount: number;
+  year: number;
+  fiscalSponsor?: string; // The organization that receives grants for this project, if any
+  city?: string; // The grantee's address as the list gives it
+  state?: string;
+  zip?: string;
+}
+
+export interface CentralFunder {
+  ein: string;
+  name: string | null; // Display name, or null to take it from the IRS data
+  grants: InternalGrant[] | null; // The funder's own grants list, or null to use its IRS returns
+}
+
+export interface NetworkSources {
+  dataset: DatasetView;
+  registry: BmfRegistry | null;
+  overrides: GranteeOverrides;
+  matchOptions: MatchOptions;
+}
+
+export interface BuiltNetwork {
+  nodes: NetworkNode[];
+  links: NetworkLink[];
+  fiscalSponsorships: FiscalSponsorship[];
+}
+
+/**
+ * A central funder's grantee that no organization with an EIN was found for
+ */
+export interface UnmatchedGrantee {
+  id: string; // Its no_ein_ node
+  name: string; // As the central funder's records give it
+  city?: string;
+  state?: string;
+  zip?: string;
+  centralFunders: string[];
+  amount: number; // Paid by the central funders
+  otherFunders: string[]; // Funders whose returns name it without an EIN
+}
+
+interface CentralGrant extends ReceivedGrant {
+  committed: boolean; // Approved for future payment, not yet paid
+}
+
+interface Grantee {
+  id: string;
+  listedName: string; // Name as the central funder's records give it
+  listedSponsor?: string;
+  listedAddress?: { city?: string; state?: string; zip?: string };
+  grants: CentralGrant[];
+  match?: ScoredCandidate; // Why an internal grantee name was matched to this organization
+}
+
+interface Sponsorship {
+  projectId: string;
+  projectName: string;
+  sponsorId: string;
+  sponsorName: string;
+  sponsorMetadata?: Organization['metadata'];
+  attributed: Array<AttributedGrant & { committed: boolean }>;
+}
+
+function receivedGrant(grant: Grant, funderEIN: string, funderName: string, committed: boolean): CentralGrant {
+  return {
+    funderEIN,
+    funderName,
+    amount: grant.amount,
+    year: grant.year,
+    fiscalYear: grant.fiscalYear,
+    taxPeriodBegin: grant.taxPeriodBegin,
+    taxPeriodEnd: grant.taxPeriodEnd,
+    purpose: grant.purpose,
+    recipientRelationship: grant.recipientRelationship,
+    recipientFoundationStatus: grant.recipientFoundationStatus,
+    ircSection: grant.ircSection,
+    committed
+  };
+}
+
+/**
+ * Match an organization name from the central funder's records, taking the
+ * grantee overrides first and preferring organizations with a real EIN (in the
+ * returns or the EO BMF registry) over no_ein_ placeholders
+ */
+function createGranteeMatcher({ dataset, registry, overrides, matchOptions }: NetworkSources) {
+  let einMatcher: RecipientMatcher | null = null;
+  let placeholderMatcher: RecipientMatcher | null = null;
+
+  return (name: string): MatchResult => {
+    const key = placeholderKey(name);
+    const alias = overrides.aliasFor(key, ein => dataset.organization(ein)?.name ?? registry?.get(ein)?.name ?? name);
+    if (alias) {
+      return { status: 'matched', match: alias, candidates: [alias] };
+    }
+
+    // Built on first use: only internal grants and listed fiscal sponsors need them
+    if (!einMatcher || !placeholderMatcher) {
+      const organizations = Array.from(dataset.organizationNames(), ([key, name]): RecipientProfile => ({ key, name }));
+      const datasetKeys = new Set(organizations.map(o => o.key));
+      const registryProfiles = registry ? [...registry.profiles()].filter(p => !datasetKeys.has(p.key)) : [];
+      einMatcher = createRecipientMatcher([...organizations.filter(o => !o.key.startsWith('no_ein_')), ...registryProfiles], matchOptions);
+      placeholderMatcher = createRecipientMatcher(organizations.filter(o => o.key.startsWith('no_ein_')), matchOptions);
+    }
+
+    const profile = { key, name };
+    const neverMatch = overrides.neverMatch(key);
+    const result = einMatcher.match(profile, neverMatch);
+    return result.status === 'unmatched' ? placeholderMatcher.match(profile, neverMatch) : result;
+  };
+}
+
+/**
+ * Build the network around the central funders, each from its internal grants
+ * when given, else from its IRS returns. Grantees left without an EIN are
+ * returned alongside the network, for the unmatched-grantee report.
+ */
+export function buildNetwork(sources: NetworkSources, centrals: CentralFunder[]): BuiltNetwork & { unmatchedGrantees: UnmatchedGrantee[] } {
+  const { dataset, registry, overrides, matchOptions } = sources;
+  const centralEINs = new Set(centrals.map(c => c.ein));
+  const centralNames = new Map(centrals.map(({ ein, name }) => [ein, name
+    ?? dataset.foundation(ein)?.name
+    ?? dataset.organization(ein)?.name
+    ?? registry?.get(ein)?.name
+    ?? ein]));
+
+  console.log(`\n🕸️  Building network for ${centrals.map(c => `${centralNames.get(c.ein)} (${c.ein})`).join(', ')}...`);
+
+  const matchName = createGranteeMatcher(sources);
+  const matches = new Map<string, MatchResult>(); // Lowercase name -> match, shared by all central funders
+  const grantees = new Map<string, Grantee>();
+  const addGrant = (id: string, listedName: string, grant: CentralGrant) => {
+    if (!grantees.has(id)) grantees.set(id, { id, listedName, grants: [] });
+    grantees.get(id)!.grants.push(grant);
+    return grantees.get(id)!;
+  };
+
+  const addInternalGrants = (centralEIN: string, centralName: string, internalGrants: InternalGrant[]) => {
+    // Match each name once, however many years (or funders' lists) it appears in
+    const names = new Set<string>();
+    let ambiguousGrantees = 0;
+    for (const grant of internalGrants) {
+      const name = grant.organization.trim();
+      const normalizedName = name.toLowerCase();
+      names.add(normalizedName);
+      let result = matches.get(normalizedName);
+      if (!result) {
+        result = matchName(name);
+        matches.set(normalizedName, result);
+        if (result.status === 'ambiguous') {
+          ambiguousGrantees++;
+          const candidates = result.candidates.map(c => `${c.name} (${c.key}, ${c.score})`).join('; ');
+          console.log(`   ⚠️  "${name}" is ambiguous: ${candidates}`);
+        }
+      }
+
+      // Two spellings of the same organization share one node
+      const grantee = addGrant(result.match?.key ?? placeholderKey(name), name, {
+        funderEIN: centralEIN,
+        funderName: centralName,
+        amount: grant.amount,
+        year: grant.year,
+        committed: false
+      });
+      if (result.match) grantee.match ??= result.match;
+      if (grant.fiscalSponsor) grantee.listedSponsor ??= grant.fiscalSponsor;
+      if (grant.city || grant.state || grant.zip) grantee.listedAddress ??= { city: grant.city, state: grant.state, zip: grant.zip };
+    }
+
+    const unmatched = [...names].filter(name => !matches.get(name)!.match).length;
+    console.log(`   Matched ${names.size - unmatched} of ${names.size} grantee names to IRS organizations (${ambiguousGrantees} ambiguous)`);
+  };
+
+  const addCentralGrants = (centralEIN: string, centralName: string, internalGrants: InternalGrant[] | null) => {
+    if (centrals.length > 1) console.log(`   ${centralName}:`);
+
+    if (internalGrants) {
+      console.log(`   ${internalGrants.length} grants from the funder's own records`);
+      console.log(`   Matching grantees to IRS organizations (threshold ${matchOptions.threshold}, margin ${matchOptions.margin})...`);
+      addInternalGrants(centralEIN, centralName, internalGrants);
+      return;
+    }
+
+    const centralFoundation = dataset.foundation(centralEIN);
+    if (!centralFoundation) {
+      throw new Error(`Foundation with EIN ${centralEIN} not found in dataset`);
+    }
+
+    const grantsGiven = centralFoundation.grantsGiven || [];
+    const commitmentsMade = centralFoundation.commitmentsMade || [];
+    console.log(`   ${grantsGiven.length} grants from IRS returns (${commitmentsMade.length} approved for future payment)`);
+
+    // Grants without an EIN go to the organization an override or entity resolution merged their placeholder into, if any
+    let grantsWithoutEIN = 0;
+    let resolvedByName = 0;
+    const place = (grant: Grant, committed: boolean) => {
+      const key = recipientKey(grant);
+      const id = dataset.resolveKey(key);
+      if (key.startsWith('no_ein_') && !committed) {
+        grantsWithoutEIN++;
+        if (id !== key) resolvedByName++;
+      }
+      addGrant(id, grant.recipientName, receivedGrant(grant, centralEIN, centralName, committed));
+    };
+    grantsGiven.forEach(grant => place(grant, false));
+    commitmentsMade.forEach(grant => place(grant, true));
+
+    console.log(`   ${grantsWithoutEIN} grants had no EIN in source data, ${resolvedByName} matched to organizations by overrides or entity resolution`);
+  };
+
+  for (const central of centrals) {
+    addCentralGrants(central.ein, centralNames.get(central.ein)!, central.grants);
+  }
+
+  const shared = [...grantees.values()].filter(g => new Set(g.grants.map(grant => grant.funderEIN)).size > 1).length;
+  console.log(`   Found ${grantees.size} unique grantees${centrals.length > 1 ? ` (${shared} funded by more than one central funder)` : ''}`);
+
+  // Fiscal sponsors: IRS grants for a sponsored project are paid to its sponsor, so find the
+  // sponsor and the grants it received for the project before placing anyone's grants
+  const organizationCache = new Map<string, Organization>(); // Read once so grants keep their identity
+  const organization = (id: string) => {
+    const org = organizationCache.get(id) ?? dataset.organization(id);
+    if (org) organizationCache.set(id, org);
+    return org;
+  };
+  const sponsorships: Sponsorship[] = [];
+  const attributedGrants = new Set<ReceivedGrant>(); // Credited to a project, not the sponsor
+
+  for (const { id: projectId, listedName: projectName, listedSponsor } of grantees.values()) {
+    const override = overrides.sponsorshipFor(projectName);
+    if (!override?.sponsorEIN && !listedSponsor) {
+      if (override) console.log(`   ⚠️  Fiscal sponsor override for "${projectName}" gives no sponsor EIN and the funder's records name none`);
+      continue;
+    }
+
+    const sponsorMatch = override?.sponsorEIN
+      ? { key: override.sponsorEIN, name: registry?.get(override.sponsorEIN)?.name ?? listedSponsor ?? override.sponsorEIN }
+      : matchName(listedSponsor!).match;
+    const sponsorId = sponsorMatch?.key ?? placeholderKey(listedSponsor!);
+    if (sponsorId === projectId) {
+      console.log(`   ⚠️  "${projectName}" matched its own fiscal sponsor ${sponsorId}; add an alias or neverMatch override`);
+      continue;
+    }
+
+    const sponsor = organization(sponsorId);
+    const attributed = [
+      ...attributeSponsorGrants(sponsor?.grantsReceived || [], projectName, override ?? undefined).map(a => ({ ...a, committed: false })),
+      ...attributeSponsorGrants(sponsor?.commitmentsReceived || [], projectName, override ?? undefined).map(a => ({ ...a, committed: true }))
+    ].filter(({ grant }) => !centralEINs.has(grant.funderEIN) && !attributedGrants.has(grant)); // Central funders' grants are placed already
+    attributed.forEach(({ grant }) => attributedGrants.add(grant));
+
+    sponsorships.push({
+      projectId,
+      projectName,
+      sponsorId,
+      sponsorName: sponsor?.name ?? sponsorMatch?.name ?? listedSponsor!,
+      sponsorMetadata: sponsor?.metadata,
+      attributed
+    });
+  }
+
+  const nodes: NetworkNode[] = [];
+  const links: NetworkLink[] = [];
+  const addedNodes = new Set<string>();
+
+  centrals.forEach(({ ein }, centralIndex) => {
+    nodes.push({
+      id: ein,
+      name: centralNames.get(ein)!,
+      type: 'funder',
+      central: true, // Mark as central node for visualization
+      centralIndex, // Order among the central funders, for their color
+      metadata: dataset.foundation(ein)?.metadata
+    });
+    addedNodes.add(ein);
+  });
+
+  const addFunderNode = (ein: string, name: string, metadata?: Organization['metadata']) => {
+    if (addedNodes.has(ein)) return;
+    const funderData = dataset.foundation(ein);
+    nodes.push({
+      id: ein,
+      name,
+      type: 'funder',
+      metadata: funderData?.metadata ?? metadata,
+      grantsGiven: funderData?.grantsGiven || []
+    });
+    addedNodes.add(ein);
+  };
+
+  // Add grantees, the central funders' grants and the grantees' other funders
+  let inIRSData = 0;
+  const unmatchedGrantees: UnmatchedGrantee[] = [];
+  for (const { id, listedName, listedAddress, grants, match } of grantees.values()) {
+    // Overrides and the EO BMF registry can name organizations no return mentions
+    const org = organization(id);
+    if (org) inIRSData++;
+    const paid = grants.filter(g => !g.committed).map((grant): ReceivedGrant => ({
+      funderEIN: grant.funderEIN,
+      funderName: grant.funderName,
+      amount: grant.amount,
+      year: grant.year,
+      fiscalYear: grant.fiscalYear,
+      taxPeriodBegin: grant.taxPeriodBegin,
+      taxPeriodEnd: grant.taxPeriodEnd,
+      purpose: grant.purpose,
+      recipientRelationship: grant.recipientRelationship,
+      recipientFoundationStatus: grant.recipientFoundationStatus,
+      ircSection: grant.ircSection
+    }));
+    if (id.startsWith('no_ein_')) {
+      unmatchedGrantees.push({
+        id,
+        name: listedName,
+        ...listedAddress,
+        centralFunders: [...new Set(grants.map(g => g.funderEIN))],
+        amount: paid.reduce((sum, g) => sum + g.amount, 0),
+        otherFunders: [...new Set((org?.grantsReceived || []).map(g => g.funderEIN).filter(ein => !centralEINs.has(ein)))]
+      });
+    }
+
+    // A central funder another central funder gives to keeps its central node
+    if (!addedNodes.has(id)) {
+      nodes.push({
+        id,
+        name: org?.name ?? match?.name ?? listedName,
+        type: 'grantee',
+        amount: paid.reduce((sum, g) => sum + g.amount, 0),
+        metadata: org?.metadata,
+        centralFunders: [...new Set(grants.map(g => g.funderEIN))], // Central funders that fund it
+        // Central funders' grants, then IRS grants from others (less those a fiscal sponsor received for a project)
+        grantsReceived: [
+          ...paid,
+          ...(org?.grantsReceived || []).filter(grant => !centralEINs.has(grant.funderEIN) && !attributedGrants.has(grant))
+        ],
+        ...(match ? { match: { score: match.score, evidence: match.evidence } } : {})
+      });
+      addedNodes.add(id);
+    }
+
+    // A link for each grant (different years)
+    for (const grant of grants) {
+      links.push({
+        source: grant.funderEIN,
+        target: id,
+        amount: grant.amount,
+        type: 'central-grant',
+        year: grant.year,
+        fiscalYear: grant.fiscalYear,
+        ...(grant.committed ? { committed: true } : {})
+      });
+    }
+
+    // Other funders (paid grants, then grants approved for future payment)
+    const otherFunderGrants = [
+      ...(org?.grantsReceived || []).map(grant => ({ grant, committed: false })),
+      ...(org?.commitmentsReceived || []).map(grant => ({ grant, committed: true }))
+    ];
+    for (const { grant, committed } of otherFunderGrants) {
+      if (centralEINs.has(grant.funderEIN) || attributedGrants.has(grant)) continue;
+
+      addFunderNode(grant.funderEIN, grant.funderName);
+      links.push({
+        source: grant.funderEIN,
+        target: id,
+        amount: grant.amount,
+        type: 'other-funder',
+        year: grant.year,
+        fiscalYear: grant.fiscalYear,
+        ...(committed ? { committed: true } : {})
+      });
+    }
+  }
+
+  console.log(`   ${inIRSData} grantees found in IRS dataset, ${unmatchedGrantees.length} without an EIN`);
+
+  // Link sponsored projects to their sponsor, with the sponsor's grants for the project
+  const fiscalSponsorships: FiscalSponsorship[] = [];
+  for (const { projectId, projectName, sponsorId, sponsorName, sponsorMetadata, attributed } of sponsorships) {
+    const project = nodes.find(n => n.id === projectId);
+    if (!project) {
+      console.log(`   ⚠️  Fiscally sponsored project ${projectName} (${projectId}) has no node, skipping its sponsor`);
+      continue;
+    }
+    addFunderNode(sponsorId, sponsorName, sponsorMetadata);
+
+    project.fiscalSponsor = { id: sponsorId, name: sponsorName };
+    for (const { grant, attribution, committed } of attributed) {
+      addFunderNode(grant.funderEIN, grant.funderName);
+      if (!committed) {
+        // A project that is itself a central funder has a funder node without received grants
+        project.grantsReceived ??= [];
+        project.grantsReceived.push({ ...grant, viaSponsor: sponsorId });
+      }
+      links.push({
+        source: grant.funderEIN,
+        target: projectId,
+        amount: grant.amount,
+        type: 'sponsored-grant',
+        year: grant.year,
+        fiscalYear: grant.fiscalYear,
+        viaSponsor: sponsorId, // Paid to the fiscal sponsor for this project
+        attribution,
+        ...(committed ? { committed: true } : {})
+      });
+    }
+
+    const paid = attributed.filter(a => !a.committed);
+    fiscalSponsorships.push({
+      sponsor: sponsorId,
+      project: projectId,
+      sponsorName,
+      projectName,
+      attributedGrants: paid.length,
+      attributedAmount: paid.reduce((sum, { grant }) => sum + grant.amount, 0)
+    });
+  }
+  if (fiscalSponsorships.length > 0) {
+    const credited = fiscalSponsorships.reduce((sum, f) => sum + f.attributedGrants, 0);
+    console.log(`   Linked ${fiscalSponsorships.length} fiscally sponsored projects to their sponsors (${credited} sponsor grants credited to projects)`);
+  }
+
+  console.log('\n📊 Network Statistics:');
+  if (centrals.length > 1) console.log(`   Central Funders: ${centrals.length}`);
+  console.log(`   Nodes: ${nodes.length}`);
+  console.log(`   Links: ${links.length}`);
+  console.log(`   Grantees: ${nodes.filter(n => n.type === 'grantee').length}`);
+  console.log(`   Other Funders: ${nodes.filter(n => n.type === 'funder').length}`);
+
+  return { nodes, links, fiscalSponsorships, unmatchedGrantees };
+}
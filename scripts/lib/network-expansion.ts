@@ -0,0 +1,173 @@
+/**
+ * Hop distances and second-degree expansion for a built network.
+ *
+ * The network builder stops at the first ring: central funders -> grantees <-
+ * other funders (co-funders). Counting hops from the nearest central funder, that is
+ *
+ *   0  the central funders
+ *   1  their grantees
+ *   2  co-funders of those grantees (and fiscal sponsors of sponsored grantees)
+ *
+ * With depth 2 the next ring out is added at hop 3: the other organizations the
+ * co-funders fund, and optionally the funders of the co-funders. To keep the
+ * ring to organizations that are really adjacent to the portfolio, an
+ * organization is only added when enough co-funders are involved (minOverlap)
+ * and they account for enough money (minAmount).
+ */
+
+import { recipientKey, type DatasetView } from './complete-dataset';
+import type { FiscalSponsorship } from './fiscal-sponsorship';
+import type { NetworkLink, NetworkNode } from '../../src/services/networkData';
+
+export interface ExpansionOptions {
+  depth: number; // 1: central funders, grantees and co-funders; 2: adds the next ring
+  includeCofunderFunders: boolean; // With depth 2, also add the funders of co-funders
+  minOverlap: number; // Distinct co-funders a next-ring organization must be connected to
+  minAmount: number; // Total dollars between it and those co-funders
+}
+
+interface ExpandableNetwork {
+  nodes: NetworkNode[];
+  links: NetworkLink[];
+  fiscalSponsorships?: FiscalSponsorship[];
+}
+
+interface Candidate {
+  name: string;
+  cofunders: Set<string>;
+  amount: number;
+  links: NetworkLink[];
+}
+
+/**
+ * Set each node's hop distance from the nearest central node, following grant
+ * links and fiscal sponsorships in either direction. Unreachable nodes get no hop.
+ */
+export function markHopDistances(network: ExpandableNetwork): void {
+  const neighbors = new Map<string, string[]>();
+  const connect = (a: string, b: string) => {
+    if (!neighbors.has(a)) neighbors.set(a, []);
+    if (!neighbors.has(b)) neighbors.set(b, []);
+    neighbors.get(a)!.push(b);
+    neighbors.get(b)!.push(a);
+  };
+  network.links.forEach(link => connect(link.source, link.target));
+  (network.fiscalSponsorships || []).forEach(s => connect(s.sponsor, s.project));
+
+  const centralIds: string[] = network.nodes.filter(n => n.central).map(n => n.id);
+  const hops = new Map(centralIds.map(id => [id, 0]));
+  let frontier = centralIds;
+  while (frontier.length > 0) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const neighbor of neighbors.get(id) || []) {
+        if (hops.has(neighbor)) continue;
+        hops.set(neighbor, hops.get(id)! + 1);
+        next.push(neighbor);
+      }
+    }
+    frontier = next;
+  }
+
+  for (const node of network.nodes) {
+    if (hops.has(node.id)) node.hop = hops.get(node.id);
+  }
+}
+
+function addCandidate(candidates: Map<string, Candidate>, id: string, name: string, cofunder: string, link: NetworkLink) {
+  if (!candidates.has(id)) {
+    candidates.set(id, { name, cofunders: new Set(), amount: 0, links: [] });
+  }
+  const candidate = candidates.get(id)!;
+  candidate.cofunders.add(cofunder);
+  candidate.amount += link.amount;
+  candidate.links.push(link);
+}
+
+/**
+ * Add the next ring around a network's co-funders (hop 2 funders) and mark
+ * every node's hop distance. Only paid grants are followed.
+ */
+export function expandNetwork(network: ExpandableNetwork, dataset: DatasetView, options: ExpansionOptions) {
+  markHopDistances(network);
+  const added = { cofunders: 0, grantees: 0, funders: 0 };
+  if (options.depth < 2) return added;
+
+  const inNetwork = new Set(network.nodes.map(n => n.id));
+  const cofunders = network.nodes.filter(n => n.hop === 2 && n.type === 'funder');
+  added.cofunders = cofunders.length;
+  const keep = (candidate: Candidate) =>
+    candidate.cofunders.size >= options.minOverlap && candidate.amount >= options.minAmount;
+
+  // Other organizations the co-funders fund
+  const grantees = new Map<string, Candidate>();
+  for (const cofunder of cofunders) {
+    for (const grant of dataset.foundation(cofunder.id)?.grantsGiven || []) {
+      const recipient = dataset.resolveKey(recipientKey(grant));
+      if (inNetwork.has(recipient)) continue;
+      addCandidate(grantees, recipient, grant.recipientName, cofunder.id, {
+        source: cofunder.id,
+        target: recipient,
+        amount: grant.amount,
+        type: 'second-degree',
+        year: grant.year,
+        fiscalYear: grant.fiscalYear
+      });
+    }
+  }
+
+  // Funders of the co-funders, from the grants the co-funders received
+  const funders = new Map<string, Candidate>();
+  if (options.includeCofunderFunders) {
+    for (const cofunder of cofunders) {
+      for (const grant of dataset.organization(cofunder.id)?.grantsReceived || []) {
+        if (inNetwork.has(grant.funderEIN)) continue;
+        addCandidate(funders, grant.funderEIN, grant.funderName, cofunder.id, {
+          source: grant.funderEIN,
+          target: cofunder.id,
+          amount: grant.amount,
+          type: 'cofunder-funder',
+          year: grant.year,
+          fiscalYear: grant.fiscalYear
+        });
+      }
+    }
+  }
+
+  for (const [id, candidate] of grantees) {
+    if (!keep(candidate)) continue;
+    const org = dataset.organization(id);
+    network.nodes.push({
+      id,
+      name: org?.name || candidate.name,
+      type: 'grantee',
+      hop: 3,
+      amount: candidate.amount,
+      metadata: org?.metadata,
+      grantsReceived: org?.grantsReceived || []
+    });
+    network.links.push(...candidate.links);
+    inNetwork.add(id);
+    added.grantees++;
+  }
+
+  for (const [id, candidate] of funders) {
+    if (!keep(candidate)) continue;
+    // A co-funder's grantee that also funds another co-funder already has a node
+    if (!inNetwork.has(id)) {
+      const foundation = dataset.foundation(id);
+      network.nodes.push({
+        id,
+        name: foundation?.name || candidate.name,
+        type: 'funder',
+        hop: 3,
+        metadata: foundation?.metadata,
+        grantsGiven: foundation?.grantsGiven || []
+      });
+      added.funders++;
+    }
+    network.links.push(...candidate.links);
+  }
+
+  return added;
+}
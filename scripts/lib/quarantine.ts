@@ -0,0 +1,80 @@
+/**
+ * Quarantine report for filings that failed to parse or look wrong.
+ *
+ * Parsing never stops the build: a bad file is skipped and the run carries on.
+ * Each skipped or suspicious filing is recorded here instead, with its IRS object
+ * id, archive month, error class and message, and the counts are compared with
+ * the previous build's report so data-quality regressions stand out.
+ */
+
+import * as fs from 'fs';
+
+export const FILING_ERROR_CLASSES = [
+  'parse-error', // The XML could not be read
+  'worker-failure', // The parsing worker ran out of memory or crashed
+  'missing-ein', // The filer has no EIN, so the filing cannot be placed in the network
+  'grants-dropped', // Grant records were present but none could be read
+  'negative-amount', // Grant records with negative amounts (skipped)
+] as const;
+
+export type FilingErrorClass = typeof FILING_ERROR_CLASSES[number];
+
+export interface FilingIssue {
+  objectId: string;
+  errorClass: FilingErrorClass;
+  message: string;
+}
+
+export interface QuarantineEntry extends FilingIssue {
+  year: number; // Archive the filing came from
+  month: number;
+}
+
+export interface QuarantineReport {
+  generatedAt: string;
+  summary: Record<FilingErrorClass, number>;
+  entries: QuarantineEntry[];
+}
+
+export function buildQuarantineReport(entries: QuarantineEntry[]): QuarantineReport {
+  const summary = Object.fromEntries(FILING_ERROR_CLASSES.map(errorClass => [errorClass, 0])) as Record<FilingErrorClass, number>;
+  for (const entry of entries) {
+    summary[entry.errorClass]++;
+  }
+
+  const sorted = [...entries].sort((a, b) =>
+    a.year - b.year || a.month - b.month ||
+    FILING_ERROR_CLASSES.indexOf(a.errorClass) - FILING_ERROR_CLASSES.indexOf(b.errorClass) ||
+    a.objectId.localeCompare(b.objectId)
+  );
+  return { generatedAt: new Date().toISOString(), summary, entries: sorted };
+}
+
+/**
+ * The report from the previous build, if there is one
+ */
+export function loadQuarantineReport(reportPath: string): QuarantineReport | null {
+  if (!fs.existsSync(reportPath)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(reportPath, 'utf-8')) as QuarantineReport;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Print filings per error class, with the change since the previous build
+ */
+export function printQuarantineSummary(report: QuarantineReport, previous: QuarantineReport | null): void {
+  console.log(`\n🚧 Quarantined filings: ${report.entries.length}${previous ? ` (previous build: ${previous.entries.length})` : ''}`);
+  console.log(`   ${'Error class'.padEnd(18)} ${'Filings'.padStart(8)}${previous ? '   Change' : ''}`);
+  for (const errorClass of FILING_ERROR_CLASSES) {
+    const count = report.summary[errorClass];
+    let line = `   ${errorClass.padEnd(18)} ${String(count).padStart(8)}`;
+    if (previous) {
+      const change = count - (previous.summary?.[errorClass] ?? 0);
+      line += `   ${(change > 0 ? `+${change}` : String(change)).padStart(6)}${change > 0 ? ' ⚠️' : ''}`;
+    }
+    console.log(line);
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Report of the central funders' grantees that no organization with an EIN was
+ * found for, with the organizations most likely to be them.
+ *
+ * The network builder matches grantee names on the name alone. Here every
+ * unmatched grantee is scored again against the organizations in the returns
+ * and the EO BMF registry with everything else that is known about it: the
+ * address from the funder's grants list, and the funders (central funders, and
+ * any whose returns name it without an EIN) that a candidate would share. The
+ * top candidates are listed with their score and evidence, so the grants team
+ * can confirm one and add it to the grantee overrides as an alias.
+ */
+
+import { recipientKey } from './complete-dataset';
+import { createRecipientMatcher, type MatchOptions, type MatchResult, type RecipientProfile, type ScoredCandidate } from './entity-resolution';
+import type { NetworkSources, UnmatchedGrantee } from './network-builder';
+
+export interface UnmatchedGranteeEntry extends UnmatchedGrantee {
+  status: MatchResult['status']; // What entity resolution says with the address and funders
+  candidates: ScoredCandidate[]; // Best first
+}
+
+export interface UnmatchedGranteeReport {
+  generatedAt: string;
+  options: MatchOptions;
+  grantees: UnmatchedGranteeEntry[];
+}
+
+/**
+ * An organization's address and funders, looked up only if it is nominated as a
+ * candidate. Without an address in the registry, the address its funders'
+ * returns give it is used.
+ */
+function lazyProfile(key: string, name: string, { dataset, registry }: NetworkSources): RecipientProfile {
+  let details: Omit<RecipientProfile, 'key' | 'name'> | undefined;
+  const load = () => {
+    if (!details) {
+      const org = dataset.organization(key);
+      const registered = registry?.get(key);
+      const funders = new Set([...(org?.grantsReceived || []), ...(org?.commitmentsReceived || [])].map(g => g.funderEIN));
+      details = {
+        city: org?.metadata?.city || registered?.city,
+        state: org?.metadata?.state || registered?.state,
+        zip: registered?.zip,
+        funders
+      };
+      for (const funderEIN of funders) {
+        if (details.city && details.state && details.zip) break;
+        const foundation = dataset.foundation(funderEIN);
+        for (const grant of [...(foundation?.grantsGiven || []), ...(foundation?.commitmentsMade || [])]) {
+          if (dataset.resolveKey(recipientKey(grant)) !== key) continue;
+          details.city ||= grant.recipientCity || undefined;
+          details.state ||= grant.recipientState || undefined;
+          details.zip ||= grant.recipientZip || undefined;
+        }
+      }
+    }
+    return details;
+  };
+  return {
+    key,
+    name,
+    get city() { return load().city; },
+    get state() { return load().state; },
+    get zip() { return load().zip; },
+    get funders() { return load().funders; }
+  };
+}
+
+/**
+ * Rank candidate organizations with an EIN for each unmatched grantee, largest grantees first
+ */
+export function buildUnmatchedGranteeReport(grantees: UnmatchedGrantee[], sources: NetworkSources): UnmatchedGranteeReport {
+  const report: UnmatchedGranteeReport = { generatedAt: new Date().toISOString(), options: sources.matchOptions, grantees: [] };
+  if (grantees.length === 0) return report;
+
+  const { dataset, registry, overrides, matchOptions } = sources;
+  const organizations = Array.from(dataset.organizationNames())
+    .filter(([key]) => !key.startsWith('no_ein_'))
+    .map(([key, name]) => lazyProfile(key, name, sources));
+  const datasetKeys = new Set(organizations.map(o => o.key));
+  const registryProfiles = registry ? [...registry.profiles()].filter(p => !datasetKeys.has(p.key)) : [];
+  const matcher = createRecipientMatcher([...organizations, ...registryProfiles], matchOptions);
+
+  for (const grantee of [...grantees].sort((a, b) => b.amount - a.amount || a.name.localeCompare(b.name))) {
+    const { status, candidates } = matcher.match({
+      key: grantee.id,
+      name: grantee.name,
+      city: grantee.city,
+      state: grantee.state,
+      zip: grantee.zip,
+      funders: new Set([...grantee.centralFunders, ...grantee.otherFunders])
+    }, overrides.neverMatch(grantee.id));
+    report.grantees.push({ ...grantee, status, candidates });
+  }
+  return report;
+}
+
+export function printUnmatchedGranteeSummary(report: UnmatchedGranteeReport): void {
+  const withCandidates = report.grantees.filter(g => g.candidates.length > 0);
+  console.log(`\n🔎 Unmatched grantees: ${report.grantees.length} (${withCandidates.length} with candidate organizations)`);
+  for (const grantee of withCandidates.slice(0, 10)) {
+    const [best] = grantee.candidates;
+    console.log(`   ${grantee.name} → ${best.name} (${best.key}, ${best.score})`);
+  }
+  if (withCandidates.length > 10) console.log(`   … and ${withCandidates.length - 10} more`);
+}
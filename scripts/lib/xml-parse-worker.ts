@@ -0,0 +1,19 @@
+/**
+ * Worker thread entry point for the XML worker pool (see xml-worker-pool.ts).
+ * Parses one file per message and posts the BatchResult back, after a ready
+ * message once it has loaded.
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { processXmlFile, type ProcessXmlOptions } from './irs-xml';
+import type { ParseTask, ParseTaskResult, WorkerReady } from './xml-worker-pool';
+
+const options = workerData as ProcessXmlOptions;
+
+parentPort!.on('message', async (task: ParseTask) => {
+  const result = await processXmlFile(task.filePath, task.year, options);
+  const message: ParseTaskResult = { id: task.id, result };
+  parentPort!.postMessage(message);
+});
+
+parentPort!.postMessage({ ready: true } satisfies WorkerReady);
@@ -0,0 +1,168 @@
+/**
+ * Pool of worker threads for parsing IRS XML files.
+ *
+ * Parsing is CPU-bound, so running it behind p-limit on the main event loop
+ * is effectively serial. The pool spreads files across `size` workers, each
+ * parsing one file at a time, and posts every BatchResult back as soon as it
+ * is ready. Each worker's heap is capped at `memoryMb`; a worker that runs out
+ * of memory (or crashes) has its file reported as failed and is replaced. A
+ * worker that can't start at all fails the pool: every file would fail the
+ * same way, so parse() rejects instead.
+ */
+
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { objectIdOf, type BatchResult, type ProcessXmlOptions } from './irs-xml';
+
+export interface ParseTask {
+  id: number;
+  filePath: string;
+  year: number;
+}
+
+export interface ParseTaskResult {
+  id: number;
+  result: BatchResult;
+}
+
+// Posted by a worker once its entry point has loaded
+export interface WorkerReady {
+  ready: true;
+}
+
+export interface XmlWorkerPoolOptions extends ProcessXmlOptions {
+  size: number;
+  memoryMb: number; // Old-generation heap limit per worker
+}
+
+export interface XmlWorkerPool {
+  parse(filePath: string, year: number): Promise<BatchResult>;
+  close(): Promise<void>;
+  readonly failedToStart: boolean; // A worker could not load its entry point
+}
+
+interface PendingTask extends ParseTask {
+  resolve: (result: BatchResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task: PendingTask | null;
+  ready: boolean;
+}
+
+const WORKER_URL = new URL('./xml-parse-worker.ts', import.meta.url).href;
+// Resolved here, from the repo: the eval'd bootstrap would resolve a bare specifier from the working directory
+const TSX_API_URL = import.meta.resolve('tsx/esm/api');
+
+// Workers don't inherit tsx's loader, so register it before importing the TypeScript entry point
+const WORKER_BOOTSTRAP = `
+import(${JSON.stringify(TSX_API_URL)})
+  .then(({ register }) => { register(); return import(${JSON.stringify(WORKER_URL)}); });
+`;
+
+export function createXmlWorkerPool(options: XmlWorkerPoolOptions): XmlWorkerPool {
+  const { size, memoryMb, ...processOptions } = options;
+  const workers: PoolWorker[] = [];
+  const queue: PendingTask[] = [];
+  let nextId = 0;
+  let closing = false;
+  let startupError: Error | null = null;
+
+  // Hand queued files to idle workers, starting workers lazily so small test runs don't pay for a full pool
+  const dispatch = () => {
+    while (queue.length > 0) {
+      let poolWorker = workers.find(w => !w.task);
+      if (!poolWorker) {
+        if (workers.length >= size) return;
+        poolWorker = spawn();
+      }
+      const task = queue.shift()!;
+      poolWorker.task = task;
+      poolWorker.worker.postMessage({ id: task.id, filePath: task.filePath, year: task.year } satisfies ParseTask);
+    }
+  };
+
+  const spawn = (): PoolWorker => {
+    const poolWorker: PoolWorker = {
+      worker: new Worker(WORKER_BOOTSTRAP, {
+        eval: true,
+        workerData: processOptions,
+        resourceLimits: { maxOldGenerationSizeMb: memoryMb }
+      }),
+      task: null,
+      ready: false
+    };
+
+    poolWorker.worker.on('message', (message: ParseTaskResult | WorkerReady) => {
+      if ('ready' in message) {
+        poolWorker.ready = true;
+        return;
+      }
+      const task = poolWorker.task;
+      poolWorker.task = null;
+      if (task && task.id === message.id) {
+        task.resolve(message.result);
+      }
+      dispatch();
+    });
+
+    let failure: NodeJS.ErrnoException | null = null;
+    poolWorker.worker.on('error', (error) => {
+      failure = error;
+    });
+
+    poolWorker.worker.on('exit', () => {
+      workers.splice(workers.indexOf(poolWorker), 1);
+      const task = poolWorker.task;
+      if (!poolWorker.ready && !closing) {
+        startupError ??= new Error(`XML parser worker failed to start: ${failure?.message ?? 'worker exited'}`);
+        for (const pending of [...(task ? [task] : []), ...queue.splice(0)]) {
+          pending.reject(startupError);
+        }
+        return;
+      }
+      if (task) {
+        const reason = failure?.code === 'ERR_WORKER_OUT_OF_MEMORY'
+          ? `worker exceeded ${memoryMb} MB`
+          : failure?.message ?? 'worker exited';
+        console.warn(`  ⚠️  Skipping file ${path.basename(task.filePath)} due to parsing error: ${reason}`);
+        task.resolve({
+          type: 'failed',
+          issues: [{ objectId: objectIdOf(task.filePath), errorClass: 'worker-failure', message: reason }]
+        });
+      }
+      if (!closing) {
+        dispatch();
+      }
+    });
+
+    workers.push(poolWorker);
+    return poolWorker;
+  };
+
+  return {
+    parse(filePath: string, year: number): Promise<BatchResult> {
+      if (closing) {
+        return Promise.reject(new Error('XML worker pool is closed'));
+      }
+      if (startupError) {
+        return Promise.reject(startupError);
+      }
+      return new Promise((resolve, reject) => {
+        queue.push({ id: nextId++, filePath, year, resolve, reject });
+        dispatch();
+      });
+    },
+
+    get failedToStart() {
+      return startupError !== null;
+    },
+
+    async close(): Promise<void> {
+      closing = true;
+      await Promise.all(workers.map(poolWorker => poolWorker.worker.terminate()));
+    }
+  };
+}
@@ -1,15 +1,82 @@
 import { useState, useMemo, useCallback } from 'react';
-import NetworkGraph from './components/NetworkGraph';
+import NetworkGraph, { type NodeColorBy } from './components/NetworkGraph';
 import BipartiteGraph from './components/BipartiteGraph';
-import { type NetworkData, type NetworkNode } from './services/csvParser';
+import { type GrantDetails, type NetworkData, type NetworkNode } from './services/csvParser';
+import { NTEE_CATEGORIES, UNCLASSIFIED_COLOR, nteeCategoryOf } from './services/ntee';
+import { centralColor, matchesCentralFilter, type CentralFunderRole } from './services/centralFunders';
+import { validateNetworkData } from './services/networkSchema';
 
-interface Grant {
+interface Grant extends GrantDetails {
   recipientEIN?: string;
   recipientName?: string;
   funderEIN?: string;
   funderName?: string;
   amount: number;
   year: number;
+  viaSponsor?: string; // Paid to the grantee's fiscal sponsor
+}
+
+// Which year a grant counts toward: the calendar year holding most of the funder's
+// tax period, or the year that tax period ended
+type YearBasis = 'calendar' | 'fiscal';
+
+// Grants from the HLF spreadsheet only have a calendar year
+function yearFor(item: { year: number; fiscalYear?: number }, basis: YearBasis): number {
+  return basis === 'fiscal' ? item.fiscalYear ?? item.year : item.year;
+}
+
+// NTEE major group letter of a node, or 'none' when the EO BMF had no code for it
+function nteeGroupOf(node: NetworkNode): string {
+  return node.metadata?.nteeCode?.[0]?.toUpperCase() || 'none';
+}
+
+// Grantees of the central funders, as opposed to organizations co-funders fund (hop 3)
+function isPortfolioGrantee(node: NetworkNode): boolean {
+  return node.type === 'grantee' && (node.hop === undefined || node.hop <= 1);
+}
+
+// The central funders' grantees in a set of links, with the central funders that fund each.
+// Commitments don't count: a grantee is in the portfolio once a central funder has paid it.
+function centralFundersByGrantee(links: Array<{ source: any; target: any; committed?: boolean }>, centralIds: Set<string>): Map<string, Set<string>> {
+  const funders = new Map<string, Set<string>>();
+  links.forEach(link => {
+    const sourceId = typeof link.source === 'string' ? link.source : link.source.id;
+    if (!centralIds.has(sourceId) || link.committed) return;
+    const targetId = typeof link.target === 'string' ? link.target : link.target.id;
+    if (!funders.has(targetId)) funders.set(targetId, new Set());
+    funders.get(targetId)!.add(sourceId);
+  });
+  return funders;
+}
+
+// Filings often say NONE or N/A when there is no relationship to report
+const EMPTY_RELATIONSHIP = /^(none|n\/?a|no|-+)$/i;
+
+/**
+ * One grant in a side panel list, with its purpose and recipient status when the filing gives them
+ */
+function GrantLine({ grant, yearBasis }: { grant: Grant; yearBasis: YearBasis }) {
+  const details = [
+    grant.recipientRelationship && !EMPTY_RELATIONSHIP.test(grant.recipientRelationship) && `Relationship: ${grant.recipientRelationship}`,
+    grant.recipientFoundationStatus && `Status: ${grant.recipientFoundationStatus}`,
+    grant.ircSection && `IRC ${grant.ircSection}`,
+    grant.viaSponsor && 'Paid to fiscal sponsor'
+  ].filter(Boolean);
+  const taxPeriod = grant.taxPeriodBegin && grant.taxPeriodEnd
+    ? `Tax period ${grant.taxPeriodBegin} to ${grant.taxPeriodEnd}`
+    : undefined;
+
+  return (
+    <div className="text-xs text-gray-600 ml-2">
+      • ${grant.amount.toLocaleString()} • <span title={taxPeriod}>{yearBasis === 'fiscal' ? 'FY' : ''}{yearFor(grant, yearBasis)}</span>
+      {grant.purpose && (
+        <div className="ml-3 italic text-gray-500">{grant.purpose}</div>
+      )}
+      {details.length > 0 && (
+        <div className="ml-3 text-gray-400">{details.join(' • ')}</div>
+      )}
+    </div>
+  );
 }
 
 function App() {
@@ -17,24 +84,55 @@ function App() {
   const [error, setError] = useState<string | null>(null);
   const [selectedNode, setSelectedNode] = useState<NetworkNode | null>(null);
   const [selectedYear, setSelectedYear] = useState<number | 'all'>(2023); // Default to 2023 instead of 'all'
+  const [yearBasis, setYearBasis] = useState<YearBasis>('calendar');
   const [minLinks, setMinLinks] = useState<number>(1);
   const [rawNetworkData, setRawNetworkData] = useState<NetworkData | null>(null);
   const [showAllGrantees, setShowAllGrantees] = useState(false);
   const [showDataInfo, setShowDataInfo] = useState(false);
   const [activeTab, setActiveTab] = useState<'network' | 'bipartite'>('network');
   const [focusedGranteeId, setFocusedGranteeId] = useState<string | null>(null);
+  const [showInterlocks, setShowInterlocks] = useState(false);
+  const [showSecondDegree, setShowSecondDegree] = useState(false);
+  const [nteeFilter, setNteeFilter] = useState<string>('all'); // NTEE major group letter, or 'none' for unclassified
+  const [colorBy, setColorBy] = useState<NodeColorBy>('type');
+  const [centralFilter, setCentralFilter] = useState<Record<string, CentralFunderRole>>({}); // Central funder id -> role
+  const [sharedOnly, setSharedOnly] = useState(false); // Only grantees two or more central funders fund
 
   // Bipartite filters
   const [bipartiteTopN, setBipartiteTopN] = useState<number>(50);
   const [bipartiteMinAmount, setBipartiteMinAmount] = useState<number>(0);
   const [bipartiteSearch, setBipartiteSearch] = useState<string>('');
 
-  // Get central node info (the foundation we're visualizing)
-  const centralNode = useMemo(() => {
-    if (!rawNetworkData) return null;
-    return rawNetworkData.nodes.find((n: any) => n.central === true) || null;
+  // Central funders (the foundations we're visualizing), in the order they were built
+  const centralNodes = useMemo(() => {
+    if (!rawNetworkData) return [];
+    return rawNetworkData.nodes
+      .filter(n => n.central === true)
+      .sort((a, b) => (a.centralIndex ?? 0) - (b.centralIndex ?? 0));
+  }, [rawNetworkData]);
+  const centralLabel = centralNodes.length === 1 ? centralNodes[0].name : 'the central funders';
+
+  // Whether a grantee's central funders (from year-filtered links) pass the central funder filters
+  const passesCentralFilter = useCallback((funderIds: Set<string>) =>
+    matchesCentralFilter(funderIds, centralFilter) && (!sharedOnly || funderIds.size > 1),
+  [centralFilter, sharedOnly]);
+
+  // NTEE major groups of the grantees, for the subject area filter
+  const nteeGroups = useMemo(() => {
+    const groups = new Map<string, string>();
+    rawNetworkData?.nodes
+      .filter(n => n.type === 'grantee')
+      .forEach(n => {
+        const group = nteeGroupOf(n);
+        if (!groups.has(group)) groups.set(group, n.metadata?.nteeCategory || group);
+      });
+    if (groups.size === 1 && groups.has('none')) return []; // Built without the EO BMF
+    return Array.from(groups.entries()).sort(([a], [b]) => (a === 'none' ? 1 : b === 'none' ? -1 : a.localeCompare(b)));
   }, [rawNetworkData]);
 
+  // Whether the network was built with --depth=2
+  const hasSecondDegree = useMemo(() => !!rawNetworkData?.nodes.some(n => (n.hop ?? 0) >= 3), [rawNetworkData]);
+
   const loadData = async () => {
     setLoading(true);
     setError(null);
@@ -47,8 +145,17 @@ function App() {
         throw new Error('Failed to load network data from server.');
       }
 
-      const fullNetworkData = await networkResponse.json();
-      setRawNetworkData(fullNetworkData);
+      // Files from a build with another format version, or hand-edited ones, can't be drawn
+      const fullNetworkData: unknown = await networkResponse.json();
+      const problems = validateNetworkData(fullNetworkData);
+      if (problems.length > 0) {
+        console.error('Incompatible network data:', problems);
+        throw new Error(
+          `grants-network-data.json is not in the format this app reads: ${problems.slice(0, 3).join('; ')}` +
+          `${problems.length > 3 ? `; and ${problems.length - 3} more` : ''}. Rebuild it with npm run build-complete-dataset -- --network-only.`
+        );
+      }
+      setRawNetworkData(fullNetworkData as NetworkData);
       setLoading(false);
 
     } catch (err) {
@@ -62,32 +169,27 @@ function App() {
   const bipartiteData = useMemo(() => {
     if (!rawNetworkData) return null;
 
-    // Find the central node
-    const centralNode = rawNetworkData.nodes.find((n: any) => n.central === true);
-    if (!centralNode) return null;
-    const centralNodeId = centralNode.id;
+    // Find the central nodes
+    const centralIds = new Set(rawNetworkData.nodes.filter(n => n.central === true).map(n => n.id));
+    if (centralIds.size === 0) return null;
 
-    // Filter links by year only
-    let filteredLinks = rawNetworkData.links;
+    // Filter links by year only (the bipartite view shows money paid, not future commitments)
+    let filteredLinks = rawNetworkData.links.filter(link => !link.committed);
     if (selectedYear !== 'all') {
-      filteredLinks = filteredLinks.filter((link: any) => link.year === selectedYear);
+      filteredLinks = filteredLinks.filter((link: any) => yearFor(link, yearBasis) === selectedYear);
     }
 
-    // Identify central node's grantees
-    const centralGranteeIds = new Set<string>();
-    filteredLinks.forEach((link: any) => {
-      const sourceId = typeof link.source === 'string' ? link.source : link.source.id;
-      if (sourceId === centralNodeId) {
-        const targetId = typeof link.target === 'string' ? link.target : link.target.id;
-        centralGranteeIds.add(targetId);
-      }
-    });
+    // Identify central nodes' grantees that pass the central funder filters
+    const centralGranteeIds = new Set(
+      Array.from(centralFundersByGrantee(filteredLinks, centralIds))
+        .filter(([, funderIds]) => passesCentralFilter(funderIds))
+        .map(([id]) => id)
+    );
 
-    // Keep links involving central node's grantees
+    // Keep links to central nodes' grantees
     filteredLinks = filteredLinks.filter((link: any) => {
-      const sourceId = typeof link.source === 'string' ? link.source : link.source.id;
       const targetId = typeof link.target === 'string' ? link.target : link.target.id;
-      return sourceId === centralNodeId || centralGranteeIds.has(targetId);
+      return centralGranteeIds.has(targetId);
     });
 
     // Aggregate grants
@@ -142,56 +244,65 @@ function App() {
       nodes: filteredNodes,
       links: normalizedLinks
     };
-  }, [rawNetworkData, selectedYear]);
+  }, [rawNetworkData, selectedYear, yearBasis, passesCentralFilter]);
 
   // Filter data by year and minLinks - WITHOUT focus filter (for grantee list)
   const unfocusedNetworkData = useMemo(() => {
     if (!rawNetworkData) return null;
 
-    // Find the central node (the one with central=true, regardless of its actual ID)
-    const centralNode = rawNetworkData.nodes.find((n: any) => n.central === true);
-    if (!centralNode) return null;
-    const centralNodeId = centralNode.id;
+    // Find the central nodes (the ones with central=true, regardless of their actual IDs)
+    const centralIds = new Set(rawNetworkData.nodes.filter(n => n.central === true).map(n => n.id));
+    if (centralIds.size === 0) return null;
 
     // Step 1: Filter links by year FIRST (if specified)
     let filteredLinks = rawNetworkData.links;
     if (selectedYear !== 'all') {
-      filteredLinks = filteredLinks.filter((link: any) => link.year === selectedYear);
+      filteredLinks = filteredLinks.filter((link: any) => yearFor(link, yearBasis) === selectedYear);
     }
 
-    // Step 2: Identify central node's grantees from the YEAR-FILTERED links
-    // This ensures we only show grantees that the central node funded in the selected year
-    const centralGranteeIds = new Set<string>();
-    filteredLinks.forEach((link: any) => {
-      const sourceId = typeof link.source === 'string' ? link.source : link.source.id;
-      if (sourceId === centralNodeId) {
-        const targetId = typeof link.target === 'string' ? link.target : link.target.id;
-        centralGranteeIds.add(targetId);
-      }
-    });
+    // Step 1.5: Keep only grantees in the selected NTEE subject area
+    if (nteeFilter !== 'all') {
+      const nodesById = new Map(rawNetworkData.nodes.map(n => [n.id, n]));
+      filteredLinks = filteredLinks.filter(link => {
+        const target = nodesById.get(link.target);
+        return target?.type !== 'grantee' || nteeGroupOf(target) === nteeFilter;
+      });
+    }
+
+    // Step 2: Identify central nodes' grantees from the YEAR-FILTERED links
+    // This ensures we only show grantees that a central node funded in the selected year,
+    // and that the central funders funding them pass the central funder filters
+    const centralGranteeIds = new Set(
+      Array.from(centralFundersByGrantee(filteredLinks, centralIds))
+        .filter(([, funderIds]) => passesCentralFilter(funderIds))
+        .map(([id]) => id)
+    );
 
-    // Step 3: Only keep links that involve central node's grantees from the selected year
+    // Step 3: Only keep links that involve central nodes' grantees from the selected year
     // This means: central-node -> grantee OR other-funder -> central-grantee
+    // (plus links to and from the second-degree ring when it is shown)
+    const secondDegreeIds = new Set(
+      showSecondDegree ? rawNetworkData.nodes.filter(n => (n.hop ?? 0) >= 3).map(n => n.id) : []
+    );
     filteredLinks = filteredLinks.filter((link: any) => {
       const sourceId = typeof link.source === 'string' ? link.source : link.source.id;
       const targetId = typeof link.target === 'string' ? link.target : link.target.id;
 
-      // Keep if source is the central node (central -> grantee links)
-      if (sourceId === centralNodeId) return true;
+      if (secondDegreeIds.has(sourceId) || secondDegreeIds.has(targetId)) return true;
 
-      // Keep if target is a central node grantee (other-funder -> central-grantee links)
+      // Keep if target is a central node grantee (central -> grantee and other-funder -> central-grantee links)
       if (centralGranteeIds.has(targetId)) return true;
 
       return false;
     });
 
     // Step 3.5: Aggregate multiple grants into single links (one link per relationship)
-    // Group by source-target pair and sum amounts
+    // Group by source-target pair and sum amounts; commitments stay separate so they draw as dashed edges
     const linkMap = new Map<string, any>();
     filteredLinks.forEach((link: any) => {
       const sourceId = typeof link.source === 'string' ? link.source : link.source.id;
       const targetId = typeof link.target === 'string' ? link.target : link.target.id;
-      const key = `${sourceId}|${targetId}`;
+      const key = `${sourceId}|${targetId}${link.committed ? '|committed' : ''}${link.viaSponsor ? `|${link.viaSponsor}` : ''}`;
 
       if (!linkMap.has(key)) {
         linkMap.set(key, {
@@ -200,6 +311,8 @@ function App() {
           amount: 0,
           grantCount: 0,
           year: link.year,
+          committed: !!link.committed,
+          viaSponsor: link.viaSponsor,
           grants: [] // Store all individual grants for side panel
         });
       }
@@ -272,7 +385,17 @@ function App() {
       nodes: filteredNodes,
       links: normalizedLinks
     };
-  }, [rawNetworkData, selectedYear, minLinks]);
+  }, [rawNetworkData, selectedYear, yearBasis, minLinks, nteeFilter, showSecondDegree, passesCentralFilter]);
+
+  // The central funders of each grantee in view, for the grantee list's dots and the graph's shared-grantee outline
+  const granteeCentrals = useMemo(
+    () => centralFundersByGrantee(unfocusedNetworkData?.links ?? [], new Set(centralNodes.map(n => n.id))),
+    [unfocusedNetworkData, centralNodes]
+  );
+  const sharedGranteeIds = useMemo(
+    () => new Set(Array.from(granteeCentrals).filter(([, funderIds]) => funderIds.size > 1).map(([id]) => id)),
+    [granteeCentrals]
+  );
 
   // Apply focus filter to create final network data
   const networkData = useMemo(() => {
@@ -304,11 +427,47 @@ function App() {
     };
   }, [unfocusedNetworkData, focusedGranteeId]);
 
+  // Overlay the fiscal sponsors of visible projects, and board interlocks between visible nodes when enabled
+  const graphData = useMemo(() => {
+    if (!networkData || !rawNetworkData) return networkData;
+
+    const visibleNodeIds = new Set(networkData.nodes.map(n => n.id));
+    const year = selectedYear === 'all' ? 0 : selectedYear;
+
+    const sponsorships = (rawNetworkData.fiscalSponsorships || []).filter(s => visibleNodeIds.has(s.project));
+    const sponsorIds = new Set(sponsorships.map(s => s.sponsor));
+    const sponsorNodes = rawNetworkData.nodes.filter(n => sponsorIds.has(n.id) && !visibleNodeIds.has(n.id));
+    sponsorNodes.forEach(n => visibleNodeIds.add(n.id));
+    const sponsorLinks = sponsorships.map(sponsorship => ({
+      source: sponsorship.sponsor,
+      target: sponsorship.project,
+      amount: 0,
+      year,
+      fiscalSponsor: true
+    }));
+
+    const interlockLinks = !showInterlocks ? [] : (rawNetworkData.interlocks || [])
+      .filter(interlock => visibleNodeIds.has(interlock.source) && visibleNodeIds.has(interlock.target))
+      .map(interlock => ({
+        source: interlock.source,
+        target: interlock.target,
+        amount: 0,
+        year,
+        interlock: true
+      }));
+
+    if (sponsorLinks.length === 0 && interlockLinks.length === 0) return networkData;
+    return {
+      nodes: [...networkData.nodes, ...sponsorNodes],
+      links: [...networkData.links, ...sponsorLinks, ...interlockLinks]
+    };
+  }, [networkData, showInterlocks, rawNetworkData, selectedYear]);
+
   // Calculate stats reactively
   const stats = useMemo(() => {
     if (!networkData) return { grantees: 0, funders: 0, totalLinks: 0 };
 
-    const grantees = networkData.nodes.filter((n: any) => n.type === 'grantee').length;
+    const grantees = networkData.nodes.filter(isPortfolioGrantee).length;
     const funders = networkData.nodes.filter((n: any) => n.type === 'funder').length;
 
     return {
@@ -324,6 +483,37 @@ function App() {
     setShowAllGrantees(false);
   }, []);
 
+  // Which central funders a grantee must (or must not) be funded by, shared by both views
+  const centralFilterControls = centralNodes.length > 1 && (
+    <div className="flex flex-wrap items-center gap-4">
+      <span className="text-sm font-medium text-gray-700 whitespace-nowrap">Central Funders:</span>
+      {centralNodes.map(node => (
+        <label key={node.id} className="flex items-center gap-2 text-sm text-gray-700 whitespace-nowrap">
+          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: centralColor(node) }}></div>
+          {node.name}
+          <select
+            value={centralFilter[node.id] || 'any'}
+            onChange={(e) => setCentralFilter({ ...centralFilter, [node.id]: e.target.value as CentralFunderRole })}
+            className="px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 bg-white"
+          >
+            <option value="any">Any</option>
+            <option value="funds">Funds</option>
+            <option value="not">Doesn't fund</option>
+          </select>
+        </label>
+      ))}
+      <label className="flex items-center gap-2 text-sm text-gray-700 whitespace-nowrap">
+        <input
+          type="checkbox"
+          checked={sharedOnly}
+          onChange={(e) => setSharedOnly(e.target.checked)}
+          className="accent-emerald-600"
+        />
+        Shared grantees only
+      </label>
+    </div>
+  );
+
   return (
     <div className="flex flex-col h-screen bg-gray-50">
       {/* Compact Header */}
@@ -338,7 +528,9 @@ function App() {
             />
             <div>
               <h1 className="text-xl font-bold text-gray-900">
-                {centralNode ? `${centralNode.name} Grants Network` : 'Grants Network'}
+                {centralNodes.length > 3
+                  ? `${centralNodes.length}-Funder Grants Network`
+                  : centralNodes.length > 0 ? `${centralNodes.map(n => n.name).join(' & ')} Grants Network` : 'Grants Network'}
               </h1>
               <div className="flex items-center gap-2">
                 <p className="text-xs text-gray-600">
@@ -370,6 +562,16 @@ function App() {
               <option value="2022">2022</option>
             </select>
 
+            <select
+              value={yearBasis}
+              onChange={(e) => setYearBasis(e.target.value as YearBasis)}
+              title="Calendar year: the year holding most of the funder's tax period. Fiscal year: the year that tax period ended."
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 bg-white"
+            >
+              <option value="calendar">Calendar year</option>
+              <option value="fiscal">Fiscal year</option>
+            </select>
+
             <button
               onClick={loadData}
               disabled={loading}
@@ -394,18 +596,72 @@ function App() {
 
             {/* Legend */}
             <div className="flex gap-3 text-xs">
+              {centralNodes.length > 0 ? centralNodes.map(node => (
+                <div key={node.id} className="flex items-center gap-1">
+                  <div className="w-3 h-3 rounded-full" style={{ backgroundColor: centralColor(node) }}></div>
+                  <span className="text-gray-700">{node.name}</span>
+                </div>
+              )) : (
+                <div className="flex items-center gap-1">
+                  <div className="w-3 h-3 rounded-full" style={{ backgroundColor: centralColor() }}></div>
+                  <span className="text-gray-700">Foundation</span>
+                </div>
+              )}
+              {centralNodes.length > 1 && (
+                <div className="flex items-center gap-1">
+                  <div className="w-3 h-3 rounded-full border-2 border-gray-900"></div>
+                  <span className="text-gray-700">Shared grantee</span>
+                </div>
+              )}
+              {colorBy === 'type' ? (
+                <>
+                  <div className="flex items-center gap-1">
+                    <div className="w-3 h-3 rounded-full" style={{ backgroundColor: '#ea8535' }}></div>
+                    <span className="text-gray-700">Grantee Partners</span>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <div className="w-3 h-3 rounded-full" style={{ backgroundColor: '#802e87' }}></div>
+                    <span className="text-gray-700">Other Funders</span>
+                  </div>
+                </>
+              ) : (
+                <>
+                  {NTEE_CATEGORIES
+                    .filter(category => networkData?.nodes.some(n => !n.central && nteeCategoryOf(n.metadata?.nteeCode) === category))
+                    .map(category => (
+                      <div key={category.label} className="flex items-center gap-1">
+                        <div className="w-3 h-3 rounded-full" style={{ backgroundColor: category.color }}></div>
+                        <span className="text-gray-700">{category.label}</span>
+                      </div>
+                    ))}
+                  <div className="flex items-center gap-1">
+                    <div className="w-3 h-3 rounded-full" style={{ backgroundColor: UNCLASSIFIED_COLOR }}></div>
+                    <span className="text-gray-700">No NTEE code</span>
+                  </div>
+                </>
+              )}
               <div className="flex items-center gap-1">
-                <div className="w-3 h-3 rounded-full" style={{ backgroundColor: 'rgb(113, 206, 126)' }}></div>
-                <span className="text-gray-700">{centralNode?.name || 'Foundation'}</span>
-              </div>
-              <div className="flex items-center gap-1">
-                <div className="w-3 h-3 rounded-full" style={{ backgroundColor: '#ea8535' }}></div>
-                <span className="text-gray-700">Grantee Partners</span>
-              </div>
-              <div className="flex items-center gap-1">
-                <div className="w-3 h-3 rounded-full" style={{ backgroundColor: '#802e87' }}></div>
-                <span className="text-gray-700">Other Funders</span>
+                <div className="w-4 border-t-2 border-dashed border-gray-500"></div>
+                <span className="text-gray-700">Committed (future payment)</span>
               </div>
+              {rawNetworkData?.fiscalSponsorships && rawNetworkData.fiscalSponsorships.length > 0 && (
+                <div className="flex items-center gap-1">
+                  <div className="w-4 border-t-2 border-teal-600"></div>
+                  <span className="text-gray-700">Fiscal sponsor</span>
+                </div>
+              )}
+              {showInterlocks && (
+                <div className="flex items-center gap-1">
+                  <div className="w-4 border-t-2 border-dotted border-blue-600"></div>
+                  <span className="text-gray-700">Shared board member</span>
+                </div>
+              )}
+              {showSecondDegree && (
+                <div className="flex items-center gap-1">
+                  <div className="w-3 h-3 rounded-full bg-gray-400 opacity-50"></div>
+                  <span className="text-gray-700">Second degree (faded)</span>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -471,7 +727,56 @@ function App() {
                 <span className="text-xs text-gray-600">
                   (Only show funders with at least {minLinks} grantee{minLinks > 1 ? 's' : ''})
                 </span>
+                <label className="flex items-center gap-2 text-sm text-gray-700 ml-4 whitespace-nowrap">
+                  <input
+                    type="checkbox"
+                    checked={showInterlocks}
+                    onChange={(e) => setShowInterlocks(e.target.checked)}
+                    className="accent-blue-600"
+                  />
+                  Board interlocks
+                </label>
+                {hasSecondDegree && (
+                  <label
+                    className="flex items-center gap-2 text-sm text-gray-700 whitespace-nowrap"
+                    title="Organizations the co-funders fund, and funders of co-funders, that the central funders do not fund"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={showSecondDegree}
+                      onChange={(e) => setShowSecondDegree(e.target.checked)}
+                      className="accent-emerald-600"
+                    />
+                    Second degree
+                  </label>
+                )}
+                {nteeGroups.length > 0 && (
+                  <>
+                    <select
+                      value={nteeFilter}
+                      onChange={(e) => setNteeFilter(e.target.value)}
+                      title="NTEE subject area of the grantees, from the IRS EO Business Master File"
+                      className="ml-4 px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 bg-white"
+                    >
+                      <option value="all">All subject areas</option>
+                      {nteeGroups.map(([group, category]) => (
+                        <option key={group} value={group}>
+                          {group === 'none' ? 'No NTEE code' : `${group}: ${category}`}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={colorBy}
+                      onChange={(e) => setColorBy(e.target.value as NodeColorBy)}
+                      className="px-2 py-1 border border-gray-300 rounded text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 bg-white"
+                    >
+                      <option value="type">Color by role</option>
+                      <option value="ntee">Color by subject area</option>
+                    </select>
+                  </>
+                )}
               </div>
+              {centralFilterControls && <div className="mt-3">{centralFilterControls}</div>}
             </div>
 
             {/* Three-column layout */}
@@ -481,7 +786,7 @@ function App() {
               <h3 className="text-sm font-bold text-gray-900 mb-3">Grantee Partners</h3>
               {unfocusedNetworkData && (() => {
                 const grantees = unfocusedNetworkData.nodes
-                  .filter((n: any) => n.type === 'grantee')
+                  .filter(isPortfolioGrantee)
                   .map((grantee: any) => {
                     const funderCount = unfocusedNetworkData.links.filter((l: any) => l.target === grantee.id).length;
                     const totalFunding = unfocusedNetworkData.links
@@ -515,7 +820,17 @@ function App() {
                         }`}
                       >
                         <div className="font-medium truncate">{grantee.name}</div>
-                        <div className="text-[10px] text-gray-600">
+                        <div className="flex items-center gap-1 text-[10px] text-gray-600">
+                          {centralNodes.length > 1 && centralNodes
+                            .filter(node => granteeCentrals.get(grantee.id)?.has(node.id))
+                            .map(node => (
+                              <span
+                                key={node.id}
+                                title={node.name}
+                                className="inline-block w-2 h-2 rounded-full"
+                                style={{ backgroundColor: centralColor(node) }}
+                              ></span>
+                            ))}
                           {grantee.funderCount} funder{grantee.funderCount > 1 ? 's' : ''} • ${(grantee.totalFunding / 1000).toFixed(0)}k
                         </div>
                       </button>
@@ -539,11 +854,13 @@ function App() {
           {!loading && networkData && (
             <div className="h-full bg-white rounded-lg shadow-lg border border-gray-200 overflow-hidden">
               <NetworkGraph
-                data={networkData}
+                data={graphData || networkData}
                 width={1400}
                 height={900}
                 onNodeClick={handleNodeClick}
                 selectedNodeId={selectedNode?.id || null}
+                colorBy={colorBy}
+                sharedGranteeIds={sharedGranteeIds}
               />
             </div>
           )}
@@ -576,6 +893,28 @@ function App() {
                   {/* Basic Info */}
                   <div>
                     <h3 className="font-bold text-lg text-gray-900 mb-1">{selectedNode.name}</h3>
+                    {selectedNode.metadata?.exemptStatus === 'revoked' && (
+                      <div className="mb-2 p-2 bg-red-50 border border-red-200 rounded text-red-800 text-xs">
+                        ⚠️ <span className="font-semibold">Tax-exempt status revoked</span>
+                        {selectedNode.metadata.revocationDate && ` on ${selectedNode.metadata.revocationDate}`}
+                        {selectedNode.metadata.revocationPostingDate && ` (posted ${selectedNode.metadata.revocationPostingDate})`}
+                        . On the IRS auto-revocation list for not filing three years in a row.
+                      </div>
+                    )}
+                    {selectedNode.metadata?.exemptStatus === 'reinstated' && (
+                      <div className="mb-2 p-2 bg-yellow-50 border border-yellow-200 rounded text-yellow-800 text-xs">
+                        ⚠️ <span className="font-semibold">Exemption reinstated</span>
+                        {selectedNode.metadata.reinstatementDate && ` on ${selectedNode.metadata.reinstatementDate}`}
+                        {selectedNode.metadata.revocationDate && `, after being revoked on ${selectedNode.metadata.revocationDate}`}
+                        .
+                      </div>
+                    )}
+                    {selectedNode.metadata?.exemptStatus === 'unlisted' && !selectedNode.central && (
+                      <div className="mb-2 p-2 bg-yellow-50 border border-yellow-200 rounded text-yellow-800 text-xs">
+                        ⚠️ <span className="font-semibold">Not in IRS Publication 78.</span> Contributions may not be
+                        tax-deductible; churches, government units and non-501(c)(3) organizations are not listed.
+                      </div>
+                    )}
                     <div className="space-y-1 text-sm text-gray-600">
                       <p>
                         <span className="font-semibold">Type:</span>{' '}
@@ -586,6 +925,25 @@ function App() {
                           <span className="font-semibold">EIN:</span> {selectedNode.id}
                         </p>
                       )}
+                      {selectedNode.hop !== undefined && !selectedNode.central && (
+                        <p className="text-xs">
+                          <span className="font-semibold">Hops from {centralNodes.length > 1 ? 'nearest central funder' : centralLabel}:</span> {selectedNode.hop}
+                          {selectedNode.hop >= 3 && ` (second degree, not funded by ${centralNodes.length > 1 ? 'any central funder' : 'the central funder'})`}
+                        </p>
+                      )}
+                      {centralNodes.length > 1 && selectedNode.centralFunders && selectedNode.centralFunders.length > 0 && (
+                        <p className="text-xs flex flex-wrap items-center gap-1">
+                          <span className="font-semibold">Funded by central funders:</span>
+                          {centralNodes
+                            .filter(node => selectedNode.centralFunders!.includes(node.id))
+                            .map(node => (
+                              <span key={node.id} className="flex items-center gap-1">
+                                <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: centralColor(node) }}></span>
+                                {node.name}
+                              </span>
+                            ))}
+                        </p>
+                      )}
 
                       {/* Metadata */}
                       {selectedNode.metadata && (
@@ -605,16 +963,153 @@ function App() {
                               <span className="font-semibold">Revenue:</span> ${selectedNode.metadata.revenue.toLocaleString()}
                             </p>
                           )}
+                          {selectedNode.metadata.nteeCode && (
+                            <p className="text-xs">
+                              <span className="font-semibold">NTEE:</span> {selectedNode.metadata.nteeCode}
+                              {selectedNode.metadata.nteeCategory && ` • ${selectedNode.metadata.nteeCategory}`}
+                            </p>
+                          )}
+                          {selectedNode.metadata.subsection && (
+                            <p className="text-xs">
+                              <span className="font-semibold">Exempt under:</span> {selectedNode.metadata.subsection}
+                              {selectedNode.metadata.rulingDate && ` since ${selectedNode.metadata.rulingDate}`}
+                            </p>
+                          )}
+                          {selectedNode.metadata.foundationType && (
+                            <p className="text-xs">
+                              <span className="font-semibold">Foundation status:</span> {selectedNode.metadata.foundationType}
+                            </p>
+                          )}
+                          {selectedNode.metadata.deductibility && (
+                            <p className="text-xs">
+                              <span className="font-semibold">Pub 78 deductibility:</span> {selectedNode.metadata.deductibility}
+                            </p>
+                          )}
                         </div>
                       )}
                     </div>
                   </div>
 
+                  {/* Officers, directors and trustees */}
+                  {selectedNode.people && selectedNode.people.length > 0 && (
+                    <div className="border-t border-gray-200 pt-4">
+                      <h4 className="font-semibold text-sm text-gray-900 mb-2">
+                        Board & Officers ({selectedNode.people.length})
+                      </h4>
+                      <p className="text-xs text-gray-600 mb-3">
+                        From the {selectedNode.people[0].year} return
+                      </p>
+                      <div className="space-y-1">
+                        {selectedNode.people.map((person, idx) => (
+                          <div key={`${person.name}-${idx}`} className="text-xs text-gray-700">
+                            <span className="font-medium">{person.name}</span>
+                            {person.title && <span className="text-gray-500"> • {person.title}</span>}
+                            {person.compensation > 0 && (
+                              <span className="text-gray-500"> • ${person.compensation.toLocaleString()}</span>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Fiscal sponsor of this project, or projects this organization sponsors */}
+                  {(() => {
+                    const sponsorships = (rawNetworkData?.fiscalSponsorships || []).filter(s =>
+                      s.sponsor === selectedNode.id || s.project === selectedNode.id
+                    );
+                    if (sponsorships.length === 0) return null;
+
+                    return (
+                      <div className="border-t border-gray-200 pt-4">
+                        <h4 className="font-semibold text-sm text-gray-900 mb-2">
+                          Fiscal Sponsorship
+                        </h4>
+                        <p className="text-xs text-gray-600 mb-3">
+                          IRS grants for a sponsored project are paid to its sponsor
+                        </p>
+                        <div className="space-y-3">
+                          {sponsorships.map((sponsorship) => {
+                            const isSponsor = sponsorship.sponsor === selectedNode.id;
+                            const otherId = isSponsor ? sponsorship.project : sponsorship.sponsor;
+                            const otherNode = rawNetworkData?.nodes.find(n => n.id === otherId);
+
+                            return (
+                              <div
+                                key={otherId}
+                                onClick={() => otherNode && handleNodeClick(otherNode)}
+                                className="bg-teal-50 p-3 rounded border border-teal-200 cursor-pointer hover:bg-teal-100 transition-colors"
+                              >
+                                <div className="text-xs text-gray-600">{isSponsor ? 'Fiscal sponsor of' : 'Fiscal sponsor'}</div>
+                                <div className="font-medium text-sm text-gray-900 mb-1">
+                                  {isSponsor ? sponsorship.projectName : sponsorship.sponsorName}
+                                </div>
+                                <div className="text-xs text-gray-600">
+                                  {sponsorship.attributedGrants > 0
+                                    ? `${sponsorship.attributedGrants} grant${sponsorship.attributedGrants > 1 ? 's' : ''} ($${sponsorship.attributedAmount.toLocaleString()}) to the sponsor credited to the project`
+                                    : 'No grants to the sponsor identified as the project\'s'}
+                                </div>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    );
+                  })()}
+
+                  {/* Other organizations in the network that share people with this one */}
+                  {(() => {
+                    const interlocks = (rawNetworkData?.interlocks || []).filter(i =>
+                      i.source === selectedNode.id || i.target === selectedNode.id
+                    );
+                    if (interlocks.length === 0) return null;
+
+                    return (
+                      <div className="border-t border-gray-200 pt-4">
+                        <h4 className="font-semibold text-sm text-gray-900 mb-2">
+                          Shared Board Members ({interlocks.length})
+                        </h4>
+                        <p className="text-xs text-gray-600 mb-3">
+                          Organizations that list the same people (matched by name)
+                        </p>
+                        <div className="space-y-3">
+                          {interlocks.map((interlock) => {
+                            const isSource = interlock.source === selectedNode.id;
+                            const otherId = isSource ? interlock.target : interlock.source;
+                            const otherNode = rawNetworkData?.nodes.find(n => n.id === otherId);
+
+                            return (
+                              <div
+                                key={otherId}
+                                onClick={() => otherNode && handleNodeClick(otherNode)}
+                                className="bg-blue-50 p-3 rounded border border-blue-200 cursor-pointer hover:bg-blue-100 transition-colors"
+                              >
+                                <div className="font-medium text-sm text-gray-900 mb-1">{otherNode?.name || otherId}</div>
+                                {interlock.people.map((person, pIdx) => {
+                                  const hereTitle = isSource ? person.sourceTitle : person.targetTitle;
+                                  const thereTitle = isSource ? person.targetTitle : person.sourceTitle;
+                                  const titles = [hereTitle && `${hereTitle} here`, thereTitle && `${thereTitle} there`]
+                                    .filter(Boolean)
+                                    .join(', ');
+                                  return (
+                                    <div key={pIdx} className="text-xs text-gray-600 ml-2">
+                                      • {person.name}{titles && ` (${titles})`}
+                                    </div>
+                                  );
+                                })}
+                              </div>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    );
+                  })()}
+
                   {/* For grantee nodes: show linked funders and all funders */}
                   {selectedNode.type === 'grantee' && selectedNode.grantsReceived && (() => {
                     // Filter grants by selected year
                     const filteredGrants = selectedNode.grantsReceived.filter((grant: Grant) =>
-                      selectedYear === 'all' || grant.year === selectedYear
+                      selectedYear === 'all' || yearFor(grant, yearBasis) === selectedYear
                     );
 
                     // Get set of currently visible node IDs in the network
@@ -680,9 +1175,7 @@ function App() {
                                       Total: ${totalAmount.toLocaleString()} ({funder.grants.length} grant{funder.grants.length > 1 ? 's' : ''})
                                     </div>
                                     {funder.grants.map((grant, gIdx) => (
-                                      <div key={gIdx} className="text-xs text-gray-600 ml-2">
-                                        • ${grant.amount.toLocaleString()} • {grant.year}
-                                      </div>
+                                      <GrantLine key={gIdx} grant={grant} yearBasis={yearBasis} />
                                     ))}
                                   </div>
                                 );
@@ -721,9 +1214,7 @@ function App() {
                                         Total: ${totalAmount.toLocaleString()} ({funder.grants.length} grant{funder.grants.length > 1 ? 's' : ''})
                                       </div>
                                       {funder.grants.map((grant, gIdx) => (
-                                        <div key={gIdx} className="text-xs text-gray-600 ml-2">
-                                          • ${grant.amount.toLocaleString()} • {grant.year}
-                                        </div>
+                                        <GrantLine key={gIdx} grant={grant} yearBasis={yearBasis} />
                                       ))}
                                     </div>
                                   );
@@ -745,7 +1236,7 @@ function App() {
                     // Get central node's grantee IDs and names
                     const centralGranteeIds = new Set(
                       networkData?.nodes
-                        .filter((n: any) => n.type === 'grantee')
+                        .filter(isPortfolioGrantee)
                         .map((n: any) => n.id) || []
                     );
 
@@ -760,7 +1251,7 @@ function App() {
 
                     const nameToIdMap = new Map<string, string>();
                     networkData?.nodes
-                      .filter((n: any) => n.type === 'grantee')
+                      .filter(isPortfolioGrantee)
                       .forEach((n: any) => {
                         nameToIdMap.set(normalizeOrgName(n.name), n.id);
                       });
@@ -795,12 +1286,12 @@ function App() {
                     // Separate grants into overlapping and non-overlapping, filtered by year
                     const sortedGrants = [...selectedNode.grantsGiven].sort((a, b) => b.amount - a.amount);
                     const overlappingGrants = sortedGrants.filter((grant: Grant) => {
-                      if (selectedYear !== 'all' && grant.year !== selectedYear) return false;
+                      if (selectedYear !== 'all' && yearFor(grant, yearBasis) !== selectedYear) return false;
                       const recipientId = findRecipientId(grant);
                       return recipientId !== null;
                     });
                     const nonOverlappingGrants = sortedGrants.filter((grant: Grant) => {
-                      if (selectedYear !== 'all' && grant.year !== selectedYear) return false;
+                      if (selectedYear !== 'all' && yearFor(grant, yearBasis) !== selectedYear) return false;
                       const recipientId = findRecipientId(grant);
                       return recipientId === null;
                     });
@@ -831,17 +1322,15 @@ function App() {
                     const groupedOverlapping = groupGrantsByOrg(overlappingGrants);
                     const groupedNonOverlapping = groupGrantsByOrg(nonOverlappingGrants);
 
-                    const centralName = centralNode?.name || 'Central Foundation';
-
                     return (
                       <div className="border-t border-gray-200 pt-4">
                         {groupedOverlapping.length > 0 && (
                           <>
                             <h4 className="font-semibold text-sm text-gray-900 mb-2">
-                              Shared Grantees with {centralName} ({groupedOverlapping.length})
+                              Shared Grantees with {centralLabel} ({groupedOverlapping.length})
                             </h4>
                             <p className="text-xs text-gray-600 mb-3">
-                              Organizations that receive funding from both this funder and {centralName}
+                              Organizations that receive funding from both this funder and {centralLabel}
                             </p>
                             <div className="space-y-3 mb-4">
                               {groupedOverlapping.map((org, idx) => {
@@ -859,9 +1348,7 @@ function App() {
                                       Total: ${totalAmount.toLocaleString()} ({org.grants.length} grant{org.grants.length > 1 ? 's' : ''})
                                     </div>
                                     {org.grants.map((grant, gIdx) => (
-                                      <div key={gIdx} className="text-xs text-gray-600 ml-2">
-                                        • ${grant.amount.toLocaleString()} • {grant.year}
-                                      </div>
+                                      <GrantLine key={gIdx} grant={grant} yearBasis={yearBasis} />
                                     ))}
                                   </div>
                                 );
@@ -899,9 +1386,7 @@ function App() {
                                         Total: ${totalAmount.toLocaleString()} ({org.grants.length} grant{org.grants.length > 1 ? 's' : ''})
                                       </div>
                                       {org.grants.map((grant, gIdx) => (
-                                        <div key={gIdx} className="text-xs text-gray-600 ml-2">
-                                          • ${grant.amount.toLocaleString()} • {grant.year}
-                                        </div>
+                                        <GrantLine key={gIdx} grant={grant} yearBasis={yearBasis} />
                                       ))}
                                     </div>
                                   );
@@ -995,6 +1480,7 @@ function App() {
                   />
                 </div>
               </div>
+              {centralFilterControls && <div className="mt-4">{centralFilterControls}</div>}
             </div>
 
             <div className="flex-1 bg-white rounded-lg shadow overflow-hidden">
@@ -1080,6 +1566,30 @@ function App() {
                   </ul>
                 </div>
 
+                <div>
+                  <h3 className="font-semibold text-gray-900 mb-2">IRS Exempt Organizations Business Master File</h3>
+                  <p className="text-sm text-gray-700 mb-2">
+                    Registry of every tax-exempt organization, when the build includes it.
+                  </p>
+                  <ul className="text-xs text-gray-600 list-disc list-inside space-y-1 ml-4">
+                    <li>Source: <a href="https://www.irs.gov/charities-non-profits/exempt-organizations-business-master-file-extract-eo-bmf" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">IRS EO BMF extract</a></li>
+                    <li>NTEE subject area, exemption subsection, ruling date and foundation status</li>
+                    <li>Finds the EIN of grantees listed by name only</li>
+                  </ul>
+                </div>
+
+                <div>
+                  <h3 className="font-semibold text-gray-900 mb-2">IRS Auto-Revocation List & Publication 78</h3>
+                  <p className="text-sm text-gray-700 mb-2">
+                    Tax-exempt status checks, when the build includes them.
+                  </p>
+                  <ul className="text-xs text-gray-600 list-disc list-inside space-y-1 ml-4">
+                    <li>Source: <a href="https://www.irs.gov/charities-non-profits/tax-exempt-organization-search-bulk-data-downloads" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">IRS Tax Exempt Organization Search bulk data</a></li>
+                    <li>Flags organizations whose exemption was revoked, with revocation and reinstatement dates</li>
+                    <li>Flags organizations not eligible to receive tax-deductible contributions (not in Pub 78)</li>
+                  </ul>
+                </div>
+
                 <div className="border-t border-gray-200 pt-4 mt-4">
                   <h3 className="font-semibold text-gray-900 mb-2">How We Process the Data</h3>
                   <ol className="text-xs text-gray-700 list-decimal list-inside space-y-2 ml-2">
@@ -1087,7 +1597,7 @@ function App() {
                     <li><strong>Extract:</strong> Parse Form 990-PF for grants and Form 990 for org metadata</li>
                     <li><strong>Consolidate:</strong> Merge organizations by name to link grants with metadata</li>
                     <li><strong>Build Network:</strong> Create bidirectional dataset tracking who funded whom</li>
-                    <li><strong>Filter:</strong> Extract HLF's network plus other funders of the same grantees</li>
+                    <li><strong>Filter:</strong> Extract the central funders' network plus other funders of the same grantees</li>
                   </ol>
                 </div>
 
@@ -1,6 +1,7 @@
 import { useEffect, useRef, useState } from 'react';
 import * as d3 from 'd3';
 import { type NetworkData } from '../services/csvParser';
+import { centralColor } from '../services/centralFunders';
 
 interface BipartiteGraphProps {
   data: NetworkData;
@@ -91,7 +92,8 @@ export default function BipartiteGraph({
     const funders = data.nodes
       .filter((n: any) => nodeIds.has(n.id) && n.type === 'funder')
       .sort((a: any, b: any) => {
-        // Central node at top
+        // Central nodes at top, in build order
+        if (a.central && b.central) return (a.centralIndex ?? 0) - (b.centralIndex ?? 0);
         if (a.central) return -1;
         if (b.central) return 1;
         // Sort by total funding
@@ -197,7 +199,7 @@ export default function BipartiteGraph({
       linkGroup.append('path')
         .attr('d', path.toString())
         .attr('fill', 'none')
-        .attr('stroke', sourceNode?.central ? 'rgb(113, 206, 126)' : '#802e87')
+        .attr('stroke', sourceNode?.central ? centralColor(sourceNode) : '#802e87')
         .attr('stroke-width', shouldHighlight ? baseStrokeWidth + 2 : baseStrokeWidth)
         .attr('stroke-opacity', shouldHighlight ? 0.7 : 0.4)
         .attr('class', 'link')
@@ -254,7 +256,7 @@ export default function BipartiteGraph({
         .attr('cx', funderX)
         .attr('cy', y)
         .attr('r', isCentral ? 10 : 6)
-        .attr('fill', isCentral ? 'rgb(113, 206, 126)' : '#802e87')
+        .attr('fill', isCentral ? centralColor(funder) : '#802e87')
         .attr('stroke', '#fff')
         .attr('stroke-width', isSelected ? 3 : 2)
         .style('cursor', 'pointer')
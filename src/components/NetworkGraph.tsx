@@ -1,6 +1,11 @@
 import { useEffect, useRef } from 'react';
 import * as d3 from 'd3';
 import { type NetworkData, type NetworkNode, type NetworkLink } from '../services/csvParser';
+import { nteeColor } from '../services/ntee';
+import { CENTRAL_COLORS, centralColor } from '../services/centralFunders';
+
+// Color nodes by role (central funder, grantee, other funder) or by NTEE subject area
+export type NodeColorBy = 'type' | 'ntee';
 
 interface NetworkGraphProps {
   data: NetworkData;
@@ -8,6 +13,8 @@ interface NetworkGraphProps {
   height?: number;
   onNodeClick?: (node: NetworkNode | null) => void;
   selectedNodeId?: string | null;
+  colorBy?: NodeColorBy;
+  sharedGranteeIds?: Set<string>; // Grantees two or more central funders have paid, drawn with a dark outline
 }
 
 interface SimulationNode extends NetworkNode, d3.SimulationNodeDatum {}
@@ -16,11 +23,12 @@ interface SimulationLink extends Omit<NetworkLink, 'source' | 'target'> {
   target: SimulationNode | string;
 }
 
-export default function NetworkGraph({ data, width = 1200, height = 800, onNodeClick, selectedNodeId }: NetworkGraphProps) {
+export default function NetworkGraph({ data, width = 1200, height = 800, onNodeClick, selectedNodeId, colorBy = 'type', sharedGranteeIds }: NetworkGraphProps) {
   const svgRef = useRef<SVGSVGElement>(null);
   const gRef = useRef<d3.Selection<SVGGElement, unknown, null, undefined> | null>(null);
   const initializedRef = useRef(false);
   const nodesRef = useRef<any>(null);
+  const sharedRef = useRef<Set<string>>(new Set()); // Grantees funded by two or more central funders
   const onNodeClickRef = useRef(onNodeClick);
 
   // Update ref when callback changes
@@ -60,7 +68,7 @@ export default function NetworkGraph({ data, width = 1200, height = 800, onNodeC
 
       // Add defs for arrow markers
       svg.append('defs').selectAll('marker')
-        .data(['funder', 'grantee', 'central'])
+        .data(['funder', 'grantee', 'sponsor', ...CENTRAL_COLORS.map((_, i) => `central-${i}`)])
         .join('marker')
         .attr('id', d => `arrow-${d}`)
         .attr('viewBox', '0 -5 10 10')
@@ -72,7 +80,8 @@ export default function NetworkGraph({ data, width = 1200, height = 800, onNodeC
         .append('path')
         .attr('fill', d => {
           if (d === 'funder') return '#802e87'; // Purple for other funders
-          if (d === 'central') return 'rgb(113, 206, 126)'; // Green for central foundation
+          if (d.startsWith('central-')) return CENTRAL_COLORS[parseInt(d.slice('central-'.length))]; // Each central funder's color
+          if (d === 'sponsor') return '#0d9488'; // Teal for fiscal sponsors
           return '#ea8535'; // Orange for grantees
         })
         .attr('d', 'M0,-5L10,0L0,5');
@@ -86,12 +95,18 @@ export default function NetworkGraph({ data, width = 1200, height = 800, onNodeC
     // Clear previous graph elements (but keep g container for zoom)
     g.selectAll('*').remove();
 
+    const centralIds = new Set(data.nodes.filter(n => n.central).map(n => n.id));
+    // Shared grantees (computed by App, like its Shared grantees only filter) get a dark outline
+    const shared = sharedGranteeIds ?? new Set<string>();
+    sharedRef.current = shared;
+
     // Create fresh simulation with improved layout
     // Radial layout: Central node in center, grantees in inner ring, other funders in outer ring
     const simulation = d3.forceSimulation<SimulationNode>(data.nodes as SimulationNode[])
       .force('link', d3.forceLink<SimulationNode, SimulationLink>(data.links as SimulationLink[])
         .id((d) => d.id)
         .distance(d => {
+          if (d.fiscalSponsor) return 140; // Keep sponsors next to their projects
           const sourceId = typeof d.source === 'object' ? d.source.id : d.source;
           const targetId = typeof d.target === 'object' ? d.target.id : d.target;
           const sourceNode = data.nodes.find(n => n.id === sourceId) as SimulationNode;
@@ -123,7 +138,8 @@ export default function NetworkGraph({ data, width = 1200, height = 800, onNodeC
         .iterations(2)) // Multiple iterations for better collision resolution
       .force('radial', d3.forceRadial<SimulationNode>(
         d => {
-          if (d.central) return 0; // Central funder at center
+          if (d.central) return centralIds.size > 1 ? 150 : 0; // Central funder at center, several around it
+          if ((d.hop ?? 0) >= 3) return 950; // Second degree outside everything else
           if (d.type === 'grantee') return 300; // Push grantees further out
           return 650; // Push other funders much further out
         },
@@ -191,12 +207,15 @@ export default function NetworkGraph({ data, width = 1200, height = 800, onNodeC
       .join('path')
       .attr('fill', 'none')
       .attr('stroke', d => {
+        if (d.interlock) return '#2563eb'; // Blue for shared board members
+        if (d.fiscalSponsor) return '#0d9488'; // Teal for fiscal sponsor -> project
         const sourceId = typeof d.source === 'string' ? d.source : (d.source as SimulationNode).id;
         const sourceNode = data.nodes.find(n => n.id === sourceId);
-        if (sourceNode?.central) return 'rgb(113, 206, 126)'; // Green for central foundation
+        if (sourceNode?.central) return centralColor(sourceNode); // The central funder's color
         return sourceNode?.type === 'funder' ? '#802e87' : '#ea8535'; // Purple for funders, orange for grantees
       })
       .attr('stroke-opacity', d => {
+        if (d.fiscalSponsor) return 0.8;
         const sourceId = typeof d.source === 'string' ? d.source : (d.source as SimulationNode).id;
         const sourceNode = data.nodes.find(n => n.id === sourceId);
         return sourceNode?.central ? 0.6 : 0.3;
@@ -206,10 +225,16 @@ export default function NetworkGraph({ data, width = 1200, height = 800, onNodeC
         const sourceNode = data.nodes.find(n => n.id === sourceId);
         return sourceNode?.central ? 2.5 : 1.5;
       })
+      .attr('stroke-dasharray', d => {
+        if (d.interlock) return '2,3'; // Dotted: shared board member
+        return d.committed ? '6,4' : null; // Dashed: approved for future payment
+      })
       .attr('marker-end', d => {
+        if (d.interlock) return null; // Interlocks are undirected
+        if (d.fiscalSponsor) return 'url(#arrow-sponsor)';
         const sourceId = typeof d.source === 'string' ? d.source : (d.source as SimulationNode).id;
         const sourceNode = data.nodes.find(n => n.id === sourceId);
-        if (sourceNode?.central) return 'url(#arrow-central)'; // Arrow for central foundation
+        if (sourceNode?.central) return `url(#arrow-central-${(sourceNode.centralIndex ?? 0) % CENTRAL_COLORS.length})`; // Arrow in the central funder's color
         return `url(#arrow-${sourceNode?.type === 'funder' ? 'funder' : 'grantee'})`;
       });
 
@@ -223,7 +248,11 @@ export default function NetworkGraph({ data, width = 1200, height = 800, onNodeC
       .attr('fill', '#666')
       .attr('text-anchor', 'middle')
       .attr('opacity', 0) // Hidden
-      .text(d => `$${(d.amount / 1000).toFixed(0)}k`);
+      .text(d => {
+        if (d.interlock) return 'shared board';
+        if (d.fiscalSponsor) return 'fiscal sponsor';
+        return `$${(d.amount / 1000).toFixed(0)}k${d.committed ? ' committed' : ''}${d.viaSponsor ? ' via sponsor' : ''}`;
+      });
 
     // Drag functions
     function dragstarted(event: d3.D3DragEvent<SVGGElement, SimulationNode, SimulationNode>) {
@@ -266,17 +295,19 @@ export default function NetworkGraph({ data, width = 1200, height = 800, onNodeC
         return 14; // Grantees
       })
       .attr('fill', d => {
-        if (d.central) return 'rgb(113, 206, 126)'; // Green for central foundation
+        if (d.central) return centralColor(d); // Each central funder's own color
+        if (colorBy === 'ntee') return nteeColor(d.metadata?.nteeCode); // Grey when not in the EO BMF
         if (d.type === 'funder') return '#802e87'; // Purple for other funders
         return '#ea8535'; // Orange for grantees
       })
       .attr('fill-opacity', d => {
+        if ((d.hop ?? 0) >= 3) return 0.45; // Faded: second degree, not in the central funder's network
         // Other funders slightly transparent to reduce clutter
         return (d.type === 'funder' && !d.central) ? 0.85 : 1;
       })
-      .attr('stroke', '#fff')
+      .attr('stroke', d => shared.has(d.id) ? '#111827' : '#fff') // Dark outline: shared grantee
       .attr('stroke-width', d => {
-        return d.central ? 3 : 2;
+        return d.central || shared.has(d.id) ? 3 : 2;
       })
       .on('click', (event, d) => {
         event.stopPropagation();
@@ -288,7 +319,7 @@ export default function NetworkGraph({ data, width = 1200, height = 800, onNodeC
       .on('mouseleave', function(_event, d) {
         // Don't reset stroke if this is the selected node
         if (selectedNodeId && d.id === selectedNodeId) return;
-        d3.select(this).attr('stroke-width', d.central ? 3 : 2);
+        d3.select(this).attr('stroke-width', d.central || shared.has(d.id) ? 3 : 2);
       });
 
     // Add labels to nodes with white background for better readability
@@ -358,7 +389,7 @@ export default function NetworkGraph({ data, width = 1200, height = 800, onNodeC
     return () => {
       simulation.stop();
     };
-  }, [data, width, height]);
+  }, [data, width, height, colorBy, sharedGranteeIds]);
 
   // Separate effect for highlighting selected node (doesn't restart simulation)
   useEffect(() => {
@@ -368,11 +399,11 @@ export default function NetworkGraph({ data, width = 1200, height = 800, onNodeC
     nodesRef.current.selectAll('circle')
       .attr('stroke', (d: SimulationNode) => {
         if (selectedNodeId && d.id === selectedNodeId) return '#fbbf24'; // Yellow for selected
-        return '#fff'; // White for others
+        return sharedRef.current.has(d.id) ? '#111827' : '#fff'; // Dark for shared grantees, white for others
       })
       .attr('stroke-width', (d: SimulationNode) => {
         if (selectedNodeId && d.id === selectedNodeId) return 4; // Thicker for selected
-        return d.central ? 3 : 2;
+        return d.central || sharedRef.current.has(d.id) ? 3 : 2;
       });
   }, [selectedNodeId]);
 
@@ -0,0 +1,38 @@
+/**
+ * Central funders of a network built around several foundations (a funder
+ * collaborative or a peer comparison).
+ *
+ * Each central funder gets its own color, by its centralIndex from the build;
+ * the first keeps the green a single central funder has always had. Grantees
+ * can be filtered by which central funders fund them, e.g. "grantees of A and
+ * B but not C".
+ */
+
+import type { NetworkNode } from './csvParser';
+
+export const CENTRAL_COLORS = [
+  'rgb(113, 206, 126)', // Green
+  '#2563eb', // Blue
+  '#dc2626', // Red
+  '#d97706', // Amber
+  '#0891b2', // Cyan
+  '#db2777', // Pink
+  '#4d7c0f', // Olive
+  '#7c3aed', // Violet
+  '#78716c', // Stone
+  '#0f766e' // Dark teal
+];
+
+export function centralColor(node?: Pick<NetworkNode, 'centralIndex'> | null): string {
+  return CENTRAL_COLORS[(node?.centralIndex ?? 0) % CENTRAL_COLORS.length];
+}
+
+// Whether a grantee must be funded by a central funder, must not be, or either
+export type CentralFunderRole = 'any' | 'funds' | 'not';
+
+/**
+ * Whether a grantee's central funders satisfy the role chosen for each central funder
+ */
+export function matchesCentralFilter(funderIds: Set<string> | undefined, filter: Record<string, CentralFunderRole>): boolean {
+  return Object.entries(filter).every(([id, role]) => role === 'any' || (role === 'funds') === !!funderIds?.has(id));
+}
@@ -1,99 +1,79 @@
 import Papa from 'papaparse';
+import YAML from 'yaml';
+import grantsListMappingFile from '../../data/grants-list-mapping.yaml?raw';
 import { propublicaService } from './propublica';
+import { importGrantsList, parseGrantsListMapping, type GrantsListMapping, type SkippedRow } from './grantsList';
+import type { FiscalSponsorship, Interlock, NetworkLink as NetworkFileLink, NetworkNode as NetworkFileNode, ReceivedGrant } from './networkData';
 
 export interface HLFGrant {
   organization: string;
-  amount: string;
+  amount: number;
   year: number;
   totalYears: number;
   totalAmount: string;
   grantType: string;
   city: string;
   state: string;
+  fiscalSponsor?: string; // "Fiscal Sponsor, If Any" column
 }
 
-export interface NetworkNode {
-  id: string;
-  name: string;
-  type: 'grantee' | 'funder';
-  central?: boolean; // True for the central funder node
-  amount?: number;
+// The network file's types are generated from its schema (networkData.schema.json)
+export type { FiscalSponsorship, Interlock, Person } from './networkData';
+
+// Optional per-grant details from the 990-PF grant table or Schedule I
+export type GrantDetails = Omit<ReceivedGrant, 'funderEIN' | 'funderName' | 'amount' | 'year' | 'viaSponsor'>;
+
+// A node as drawn: a node from the file, or one buildNetworkData makes from a grants list row
+export interface NetworkNode extends NetworkFileNode {
   details?: any;
-  metadata?: {
-    address?: string;
-    city?: string;
-    state?: string;
-    assets?: number;
-    revenue?: number;
-  };
-  grantsReceived?: Array<{
-    funderEIN: string;
-    funderName: string;
-    amount: number;
-    year: number;
-  }>;
-  grantsGiven?: Array<{
-    recipientEIN: string;
-    recipientName: string;
-    amount: number;
-    year: number;
-  }>;
 }
 
-export interface NetworkLink {
-  source: string;
-  target: string;
-  amount: number;
-  year: number;
+// A link as drawn: a grant from the file, or a board interlock or fiscal sponsorship the app adds
+export interface NetworkLink extends Omit<NetworkFileLink, 'type'> {
+  type?: NetworkFileLink['type'];
+  interlock?: boolean; // Shared board member, not a grant
+  fiscalSponsor?: boolean; // Sponsor -> project relationship, not a grant
 }
 
 export interface NetworkData {
   nodes: NetworkNode[];
   links: NetworkLink[];
+  fiscalSponsorships?: FiscalSponsorship[];
+  interlocks?: Interlock[];
 }
 
+// public/grants_list.csv is read with the build's mapping: the year comes from its "{year} Amount" column
+export const GRANTS_CSV_MAPPING = parseGrantsListMapping(YAML.parse(grantsListMappingFile), 'data/grants-list-mapping.yaml');
+
 export class CSVParser {
+  skippedRows: SkippedRow[] = []; // Rows the last parseCSV call skipped, and why
+
   /**
    * Parse the HLF grants CSV file
    */
-  async parseCSV(csvContent: string): Promise<HLFGrant[]> {
+  async parseCSV(csvContent: string, mapping: GrantsListMapping = GRANTS_CSV_MAPPING): Promise<HLFGrant[]> {
     return new Promise((resolve, reject) => {
-      Papa.parse<any>(csvContent, {
+      Papa.parse<Record<string, unknown>>(csvContent, {
         header: true,
         skipEmptyLines: true,
         complete: (results) => {
-          const grants = results.data
-            .filter((row: any) => {
-              // Filter out header rows, discretionary grants, and incomplete data
-              const org = row.Organization || '';
-              const amount = row['2025 Amount'] || '';
-
-              // Skip if no organization name or amount
-              if (!org || !amount) return false;
-
-              // Skip header/section rows
-              if (org === '5-Year Grants' || org === '4-Year Grants' || org === '1-Year Grants') return false;
-              if (org === 'Discretionary Grants' || org === 'Mini grants for Storytelling') return false;
-              if (org === 'Transition Fund' || org.includes('TOTAL')) return false;
-
-              // Skip discretionary grants - these are individual names without org info
-              // They have no city/state info and are small amounts
-              if (!row.City && !row.State && !row['Grant Award Address']) return false;
-
-              return true;
-            })
-            .map((row: any) => ({
-              organization: row.Organization,
-              amount: row['2025 Amount'],
-              year: parseInt(row['Year #']) || 1,
-              totalYears: parseInt(row['Total # Years']) || 1,
-              totalAmount: row['Total Grant Amount'] || row['2025 Amount'],
-              grantType: row['Type of Grant'] || 'General Operating Support',
-              city: row.City || '',
-              state: row.State || ''
-            }));
-
-          resolve(grants);
+          const { grants, skippedRows } = importGrantsList([{
+            name: 'CSV',
+            rows: results.data.map((values, i) => ({ row: i + 2, values })) // Row 1 is the header
+          }], mapping);
+          this.skippedRows = skippedRows;
+
+          resolve(grants.map(grant => ({
+            organization: grant.organization,
+            amount: grant.amount,
+            year: parseInt(String(grant.values['Year #'])) || 1,
+            totalYears: parseInt(String(grant.values['Total # Years'])) || 1,
+            totalAmount: String(grant.values['Total Grant Amount'] || grant.amount),
+            grantType: grant.grantType || 'General Operating Support',
+            city: grant.city || '',
+            state: grant.state || '',
+            ...(grant.fiscalSponsor ? { fiscalSponsor: grant.fiscalSponsor } : {})
+          })));
         },
         error: (error: Error) => {
           reject(error);
@@ -132,19 +112,19 @@ export class CSVParser {
           details: {
             city: grant.city,
             state: grant.state,
-            grantType: grant.grantType
+            grantType: grant.grantType,
+            fiscalSponsor: grant.fiscalSponsor
           }
         });
         nodeIds.add(orgId);
       }
 
       // Add link from HLF to grantee
-      const amount = this.parseAmount(grant.amount);
-      if (amount > 0) {
+      if (grant.amount > 0) {
         links.push({
           source: 'hlf',
           target: orgId,
-          amount,
+          amount: grant.amount,
           year: 2025
         });
       }
@@ -189,17 +169,6 @@ export class CSVParser {
     return { nodes, links };
   }
 
-  /**
-   * Parse dollar amount string to number
-   */
-  private parseAmount(amountStr: string): number {
-    if (!amountStr) return 0;
-
-    // Remove $ and commas, then parse
-    const cleaned = amountStr.replace(/[$,]/g, '');
-    return parseFloat(cleaned) || 0;
-  }
-
   /**
    * Sanitize organization name to use as ID
    */
@@ -0,0 +1,307 @@
+/**
+ * Import of a funder's own grants list (the HLF master grants list, or any
+ * funder's spreadsheet or CSV export), driven by a mapping instead of code.
+ *
+ * The mapping says which sheets to read, which columns hold the organization,
+ * amount and fiscal sponsor, where each row's year comes from, and which rows
+ * are not grants (section headers, totals, excluded grant types). A new fiscal
+ * year is a new sheet (or, in a CSV, a new "{year} Amount" column), not a code
+ * change. Every row that is not imported is reported with the reason, so a
+ * renamed column shows up as a list of skipped rows instead of a quietly
+ * smaller network.
+ *
+ * The build and the app share one mapping, data/grants-list-mapping.yaml, read
+ * with parseGrantsListMapping. This module only maps rows: the build script
+ * reads .xlsx files (scripts/lib/grants-list.ts), the app parses CSV with Papa.
+ */
+
+export interface GrantsListMapping {
+  sheets: string[] | null; // Sheets to read, in order (null = every sheet in the workbook)
+  // The year in the sheet name (else in its "{year}" amount column header), a fixed year, or a column
+  year: 'sheet' | number | { column: string };
+  columns: {
+    organization: string[]; // First non-empty column wins
+    amount: string[]; // "{year}" is replaced by the row's year, e.g. "{year} Amount"
+    fiscalSponsor: string[];
+    grantType: string[];
+    city: string[]; // The grantee's address, for matching it to an organization
+    state: string[];
+    zip: string[];
+  };
+  skip: {
+    organizations: string[]; // Section headers and totals (trimmed, case-insensitive)
+    organizationPatterns: string[]; // Regular expressions (case-insensitive)
+    grantTypes: string[]; // Grant types that are not grants to an organization (trimmed, case-insensitive)
+    singleWordNamesUpTo: number | null; // Single-word names at or under this amount are individuals
+    requireAnyOf: string[]; // Skip rows where all of these columns are empty (e.g. no address)
+  };
+}
+
+export interface GrantsListSheet {
+  name: string;
+  rows: Array<{ row: number; values: Record<string, unknown> }>; // Spreadsheet row number (1-based) and cells by header
+}
+
+export interface ImportedGrant {
+  organization: string;
+  amount: number;
+  year: number;
+  fiscalSponsor?: string; // The organization that receives grants for this project, if any
+  grantType?: string;
+  city?: string;
+  state?: string;
+  zip?: string;
+  sheet: string;
+  row: number;
+  values: Record<string, unknown>; // Every cell of the row, for columns the mapping doesn't name
+}
+
+export const SKIP_REASONS = [
+  'no-organization', // No organization name
+  'excluded-organization', // A section header, total or other listed name
+  'excluded-grant-type', // A grant type the mapping excludes
+  'no-year', // The year column is empty or not a year
+  'no-amount', // No amount, or an amount that is not a positive number
+  'missing-columns', // None of the requireAnyOf columns has a value
+  'single-word-name', // A single-word name under the individual-grant limit
+] as const;
+
+export type SkipReason = typeof SKIP_REASONS[number];
+
+export interface SkippedRow {
+  sheet: string;
+  row: number;
+  organization: string;
+  reason: SkipReason;
+  detail?: string;
+}
+
+export interface SkippedSheet {
+  sheet: string;
+  reason: 'not-found' | 'no-year';
+}
+
+interface MappingFile {
+  sheets?: unknown;
+  year?: unknown;
+  columns?: Record<string, unknown>;
+  skip?: Record<string, unknown>;
+}
+
+export interface GrantsListImport {
+  grants: ImportedGrant[];
+  skippedRows: SkippedRow[];
+  skippedSheets: SkippedSheet[];
+}
+
+function text(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value).trim();
+}
+
+function firstValue(values: Record<string, unknown>, columns: string[], year?: number): string {
+  for (const column of columns) {
+    const value = text(values[year === undefined ? column : column.replace(/\{year\}/g, String(year))]);
+    if (value) return value;
+  }
+  return '';
+}
+
+export function parseAmount(value: string): number {
+  return parseFloat(value.replace(/[$,\s]/g, '')) || 0;
+}
+
+function parseYear(value: string): number | null {
+  const year = parseInt(value, 10);
+  return /^\d{4}$/.test(value) && year >= 1900 && year <= 2100 ? year : null;
+}
+
+/**
+ * The year a sheet is for, from the first four-digit year in its name ("2025 DRAFT" -> 2025)
+ */
+export function sheetYear(name: string): number | null {
+  const match = name.match(/(?:^|\D)((?:19|20)\d{2})(?:\D|$)/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * The year in a sheet's amount column header, for a sheet without one in its
+ * name (a CSV export): "2025 Amount" matches the column "{year} Amount"
+ */
+function headerYear(sheet: GrantsListSheet, amountColumns: string[]): number | null {
+  const headers = new Set(sheet.rows.flatMap(({ values }) => Object.keys(values)));
+  for (const column of amountColumns.filter(c => c.includes('{year}'))) {
+    const escaped = column.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace('\\{year\\}', '((?:19|20)\\d{2})');
+    const pattern = new RegExp(`^${escaped}$`, 'i');
+    for (const header of headers) {
+      const match = header.trim().match(pattern);
+      if (match) return parseInt(match[1], 10);
+    }
+  }
+  return null;
+}
+
+function stringList(value: unknown, label: string, errors: string[]): string[] {
+  if (value === undefined || value === null) return [];
+  const list = Array.isArray(value) ? value : [value];
+  if (list.some(item => typeof item !== 'string' && typeof item !== 'number')) {
+    errors.push(`${label}: must be a string or a list of strings`);
+    return [];
+  }
+  return list.map(item => String(item));
+}
+
+/**
+ * Validate a grants list mapping parsed from its YAML or JSON file; source names
+ * the file in the error
+ */
+export function parseGrantsListMapping(raw: unknown, source: string): GrantsListMapping {
+  const file = (raw ?? {}) as MappingFile;
+  const errors: string[] = [];
+  const columns = file.columns ?? {};
+  const skip = file.skip ?? {};
+
+  let year: GrantsListMapping['year'] = 'sheet';
+  if (typeof file.year === 'number' && Number.isInteger(file.year)) {
+    year = file.year;
+  } else if (file.year && typeof file.year === 'object' && typeof (file.year as { column?: unknown }).column === 'string') {
+    year = { column: (file.year as { column: string }).column };
+  } else if (file.year !== undefined && file.year !== 'sheet') {
+    errors.push(`year: must be "sheet", a year, or { column: <name> }, got ${JSON.stringify(file.year)}`);
+  }
+
+  const mapping: GrantsListMapping = {
+    sheets: file.sheets === undefined || file.sheets === null ? null : stringList(file.sheets, 'sheets', errors),
+    year,
+    columns: {
+      organization: stringList(columns.organization, 'columns.organization', errors),
+      amount: stringList(columns.amount, 'columns.amount', errors),
+      fiscalSponsor: stringList(columns.fiscalSponsor, 'columns.fiscalSponsor', errors),
+      grantType: stringList(columns.grantType, 'columns.grantType', errors),
+      city: stringList(columns.city, 'columns.city', errors),
+      state: stringList(columns.state, 'columns.state', errors),
+      zip: stringList(columns.zip, 'columns.zip', errors)
+    },
+    skip: {
+      organizations: stringList(skip.organizations, 'skip.organizations', errors),
+      organizationPatterns: stringList(skip.organizationPatterns, 'skip.organizationPatterns', errors),
+      grantTypes: stringList(skip.grantTypes, 'skip.grantTypes', errors),
+      singleWordNamesUpTo: null,
+      requireAnyOf: stringList(skip.requireAnyOf, 'skip.requireAnyOf', errors)
+    }
+  };
+
+  if (mapping.columns.organization.length === 0) errors.push('columns.organization: at least one column is required');
+  if (mapping.columns.amount.length === 0) errors.push('columns.amount: at least one column is required');
+  if (mapping.sheets?.length === 0) errors.push('sheets: list at least one sheet, or leave it out to read every sheet');
+  mapping.skip.organizationPatterns.forEach((pattern, i) => {
+    try {
+      new RegExp(pattern, 'i');
+    } catch (error) {
+      errors.push(`skip.organizationPatterns[${i}]: ${error instanceof Error ? error.message : error}`);
+    }
+  });
+  if (skip.singleWordNamesUpTo !== undefined && skip.singleWordNamesUpTo !== null) {
+    if (typeof skip.singleWordNamesUpTo !== 'number' || skip.singleWordNamesUpTo < 0) {
+      errors.push('skip.singleWordNamesUpTo: must be a non-negative amount or null');
+    } else {
+      mapping.skip.singleWordNamesUpTo = skip.singleWordNamesUpTo;
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid grants list mapping ${source}:\n${errors.map(e => `  - ${e}`).join('\n')}`);
+  }
+  return mapping;
+}
+
+/**
+ * Import the grants in a list's sheets, reporting every row and sheet that is skipped
+ */
+export function importGrantsList(sheets: GrantsListSheet[], mapping: GrantsListMapping): GrantsListImport {
+  const result: GrantsListImport = { grants: [], skippedRows: [], skippedSheets: [] };
+  const excludedNames = new Set(mapping.skip.organizations.map(name => name.trim().toLowerCase()));
+  const excludedPatterns = mapping.skip.organizationPatterns.map(pattern => new RegExp(pattern, 'i'));
+  const excludedTypes = new Set(mapping.skip.grantTypes.map(type => type.trim().toLowerCase()));
+  const byName = new Map(sheets.map(sheet => [sheet.name, sheet]));
+
+  const selected = mapping.sheets ?? sheets.map(sheet => sheet.name);
+  for (const name of selected) {
+    const sheet = byName.get(name);
+    if (!sheet) {
+      result.skippedSheets.push({ sheet: name, reason: 'not-found' });
+      continue;
+    }
+    const fixedYear = mapping.year === 'sheet' ? sheetYear(name) ?? headerYear(sheet, mapping.columns.amount)
+      : typeof mapping.year === 'number' ? mapping.year : undefined;
+    if (fixedYear === null) {
+      result.skippedSheets.push({ sheet: name, reason: 'no-year' });
+      continue;
+    }
+
+    for (const { row, values } of sheet.rows) {
+      const organization = firstValue(values, mapping.columns.organization);
+      const skip = (reason: SkipReason, detail?: string) =>
+        result.skippedRows.push({ sheet: name, row, organization, reason, ...(detail ? { detail } : {}) });
+
+      if (!organization) {
+        skip('no-organization');
+        continue;
+      }
+      if (excludedNames.has(organization.toLowerCase()) || excludedPatterns.some(pattern => pattern.test(organization))) {
+        skip('excluded-organization');
+        continue;
+      }
+      const grantType = firstValue(values, mapping.columns.grantType);
+      if (grantType && excludedTypes.has(grantType.toLowerCase())) {
+        skip('excluded-grant-type', grantType);
+        continue;
+      }
+
+      let year = fixedYear;
+      if (year === undefined) {
+        const column = (mapping.year as { column: string }).column;
+        const parsed = parseYear(text(values[column]));
+        if (parsed === null) {
+          skip('no-year', `${column}: ${text(values[column]) || 'empty'}`);
+          continue;
+        }
+        year = parsed;
+      }
+
+      const amountText = firstValue(values, mapping.columns.amount, year);
+      const amount = parseAmount(amountText);
+      if (amount <= 0) {
+        skip('no-amount', amountText || undefined);
+        continue;
+      }
+      if (mapping.skip.requireAnyOf.length > 0 && !mapping.skip.requireAnyOf.some(column => text(values[column]))) {
+        skip('missing-columns', mapping.skip.requireAnyOf.join(', '));
+        continue;
+      }
+      if (mapping.skip.singleWordNamesUpTo !== null && amount <= mapping.skip.singleWordNamesUpTo && organization.split(/\s+/).length === 1) {
+        skip('single-word-name', `$${amount.toLocaleString()}`);
+        continue;
+      }
+
+      const fiscalSponsor = firstValue(values, mapping.columns.fiscalSponsor);
+      const city = firstValue(values, mapping.columns.city);
+      const state = firstValue(values, mapping.columns.state);
+      const zip = firstValue(values, mapping.columns.zip);
+      result.grants.push({
+        organization,
+        amount,
+        year,
+        ...(fiscalSponsor ? { fiscalSponsor } : {}),
+        ...(grantType ? { grantType } : {}),
+        ...(city ? { city } : {}),
+        ...(state ? { state } : {}),
+        ...(zip ? { zip } : {}),
+        sheet: name,
+        row,
+        values
+      });
+    }
+  }
+
+  return result;
+}
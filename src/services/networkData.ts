@@ -0,0 +1,147 @@
+/**
+ * Types for grants-network-data.json, generated from networkData.schema.json
+ * by scripts/generate-network-types.ts. Do not edit: change the schema and run
+ * npm run generate-network-types.
+ */
+
+// grants-network-data.json: the network around the central funders, written by scripts/build-complete-grants-dataset.ts
+export interface NetworkDataFile {
+  schemaVersion: 1; // Raised whenever a change would break a reader of the previous version
+  nodes: NetworkNode[];
+  links: NetworkLink[];
+  fiscalSponsorships: FiscalSponsorship[];
+  interlocks: Interlock[];
+}
+
+// A funder or grantee, keyed by EIN (or a no_ein_ placeholder)
+export interface NetworkNode {
+  id: string;
+  name: string;
+  type: 'grantee' | 'funder';
+  central?: boolean; // True for the central funder nodes
+  centralIndex?: number; // Order among several central funders, for their color
+  centralFunders?: string[]; // Central funders that fund this grantee
+  hop?: number; // Links from the nearest central funder: 1 grantees, 2 co-funders, 3 second degree
+  amount?: number; // Paid to this grantee by the central funders (by co-funders, at hop 3)
+  metadata?: NodeMetadata;
+  grantsReceived?: ReceivedGrant[];
+  grantsGiven?: GivenGrant[];
+  people?: Person[];
+  match?: Match;
+  fiscalSponsor?: {
+    id: string;
+    name: string;
+  }; // Sponsor of a fiscally sponsored project
+}
+
+export interface NodeMetadata {
+  address?: string;
+  city?: string;
+  state?: string;
+  assets?: number;
+  revenue?: number;
+  nteeCode?: string; // EO BMF: National Taxonomy of Exempt Entities code, e.g. "B82"
+  nteeCategory?: string; // EO BMF: NTEE major group, e.g. "Education"
+  subsection?: string; // EO BMF: e.g. "501(c)(3)"
+  rulingDate?: string; // EO BMF: "YYYY-MM" the exemption was recognized
+  foundationCode?: string; // EO BMF: FOUNDATION code, e.g. "15"
+  foundationType?: string; // EO BMF: what the foundation code means
+  exemptStatus?: 'revoked' | 'reinstated' | 'eligible' | 'unlisted'; // Auto-revocation list and Publication 78
+  revocationDate?: string; // "YYYY-MM-DD"
+  revocationPostingDate?: string;
+  reinstatementDate?: string;
+  deductibility?: string; // Pub 78 deductibility codes, e.g. "PC"
+}
+
+export interface ReceivedGrant {
+  funderEIN: string;
+  funderName: string;
+  amount: number;
+  year: number; // Calendar year
+  fiscalYear?: number; // Year the funder's tax period ended (IRS filings only)
+  taxPeriodBegin?: string;
+  taxPeriodEnd?: string;
+  purpose?: string;
+  recipientRelationship?: string;
+  recipientFoundationStatus?: string;
+  ircSection?: string;
+  viaSponsor?: string; // Paid to this project's fiscal sponsor (node id)
+}
+
+export interface GivenGrant {
+  recipientEIN: string;
+  recipientName: string;
+  amount: number;
+  year: number; // Calendar year
+  calendarYear?: number;
+  fiscalYear?: number; // Year the funder's tax period ended
+  taxPeriodBegin?: string;
+  taxPeriodEnd?: string;
+  recipientCity?: string;
+  recipientState?: string;
+  recipientZip?: string;
+  purpose?: string;
+  recipientRelationship?: string;
+  recipientFoundationStatus?: string;
+  ircSection?: string;
+}
+
+// Officer, director, trustee or key employee from the node's latest return
+export interface Person {
+  name: string;
+  title?: string;
+  year: number; // Tax year of the filing that listed them
+  hoursPerWeek?: number;
+  compensation: number;
+  relatedCompensation?: number;
+  otherCompensation?: number;
+  roles?: string[];
+}
+
+// Why a name from a central funder's grants list was matched to this organization
+export interface Match {
+  score: number;
+  evidence: MatchEvidence[];
+}
+
+export interface MatchEvidence {
+  signal: 'name' | 'acronym' | 'city' | 'state' | 'zip' | 'co-funders' | 'override';
+  detail: string;
+  weight: number; // Log-odds added to the score
+}
+
+// A grant from source (funder) to target (grantee)
+export interface NetworkLink {
+  source: string;
+  target: string;
+  amount: number;
+  type: 'central-grant' | 'other-funder' | 'sponsored-grant' | 'second-degree' | 'cofunder-funder';
+  year: number; // Calendar year
+  fiscalYear?: number; // Year the funder's tax period ended (IRS filings only)
+  committed?: boolean; // Approved for future payment, not yet paid
+  viaSponsor?: string; // Paid to the target's fiscal sponsor (node id) for the target
+  attribution?: 'purpose' | 'override'; // How a sponsor's grant was credited to the project
+}
+
+// A sponsor that receives grants on behalf of a project without its own EIN
+export interface FiscalSponsorship {
+  sponsor: string;
+  project: string;
+  sponsorName: string;
+  projectName: string;
+  attributedGrants: number; // Grants to the sponsor credited to the project
+  attributedAmount: number;
+}
+
+// Two organizations that list the same person on their returns
+export interface Interlock {
+  source: string;
+  target: string;
+  people: InterlockPerson[];
+}
+
+export interface InterlockPerson {
+  name: string;
+  sourceTitle?: string;
+  targetTitle?: string;
+}
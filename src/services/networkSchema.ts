@@ -0,0 +1,111 @@
+/**
+ * Validation of grants-network-data.json against its JSON Schema
+ * (networkData.schema.json), in the build before the file is written and in
+ * the app when it is loaded.
+ *
+ * The schema is versioned by its schemaVersion constant: a file from a build
+ * with a different version is reported as that, not as a list of field errors.
+ * Only the parts of JSON Schema the network schema uses are supported (type,
+ * const, enum, properties, required, additionalProperties, items, minimum and
+ * $ref to $defs); the types in networkData.ts are generated from the same schema.
+ */
+
+import schema from './networkData.schema.json';
+import type { NetworkDataFile } from './networkData';
+
+export interface JsonSchema {
+  $schema?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  title?: string;
+  description?: string;
+  type?: string | string[];
+  const?: unknown;
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minimum?: number;
+}
+
+const NETWORK_SCHEMA = schema as JsonSchema;
+export const NETWORK_SCHEMA_VERSION = schema.properties.schemaVersion.const as NetworkDataFile['schemaVersion'];
+
+const MAX_ERRORS = 20;
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function hasType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function resolve(node: JsonSchema): JsonSchema {
+  if (!node.$ref) return node;
+  const def = NETWORK_SCHEMA.$defs?.[node.$ref.replace('#/$defs/', '')];
+  if (!def) throw new Error(`Network schema: unknown $ref ${node.$ref}`);
+  return def;
+}
+
+function validate(value: unknown, node: JsonSchema, at: string, errors: string[]): void {
+  if (errors.length >= MAX_ERRORS) return;
+  const rule = resolve(node);
+  const label = at || '(root)';
+
+  if (rule.const !== undefined && value !== rule.const) {
+    errors.push(`${label}: expected ${JSON.stringify(rule.const)}, got ${JSON.stringify(value)}`);
+    return;
+  }
+  if (rule.enum && !rule.enum.includes(value)) {
+    errors.push(`${label}: expected one of ${rule.enum.map(v => JSON.stringify(v)).join(', ')}, got ${JSON.stringify(value)}`);
+    return;
+  }
+  const types = rule.type === undefined ? [] : Array.isArray(rule.type) ? rule.type : [rule.type];
+  if (types.length > 0 && !types.some(type => hasType(value, type))) {
+    errors.push(`${label}: expected ${types.join(' or ')}, got ${typeOf(value)}`);
+    return;
+  }
+  if (rule.minimum !== undefined && typeof value === 'number' && value < rule.minimum) {
+    errors.push(`${label}: must be at least ${rule.minimum}, got ${value}`);
+  }
+
+  if (Array.isArray(value) && rule.items) {
+    value.forEach((item, i) => validate(item, rule.items!, `${at}[${i}]`, errors));
+  } else if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties = rule.properties ?? {};
+    for (const name of rule.required ?? []) {
+      if (object[name] === undefined) errors.push(`${at ? `${at}.` : ''}${name}: required`);
+    }
+    for (const [name, property] of Object.entries(object)) {
+      if (property === undefined) continue; // Not written to JSON
+      const path = at ? `${at}.${name}` : name;
+      if (properties[name]) {
+        validate(property, properties[name], path, errors);
+      } else if (rule.additionalProperties === false) {
+        errors.push(`${path}: not part of the format`);
+      }
+    }
+  }
+}
+
+/**
+ * Problems that keep data from being read as grants-network-data.json (at most
+ * 20), or none. A file for another format version only reports the version.
+ */
+export function validateNetworkData(data: unknown): string[] {
+  if (typeOf(data) !== 'object') return [`(root): expected object, got ${typeOf(data)}`];
+  const version = (data as { schemaVersion?: unknown }).schemaVersion;
+  if (version !== NETWORK_SCHEMA_VERSION) {
+    return [`schemaVersion: the file is format version ${version === undefined ? 'none (written before versioning)' : JSON.stringify(version)}, expected ${NETWORK_SCHEMA_VERSION}`];
+  }
+  const errors: string[] = [];
+  validate(data, NETWORK_SCHEMA, '', errors);
+  return errors.slice(0, MAX_ERRORS);
+}
@@ -0,0 +1,42 @@
+/**
+ * NTEE (National Taxonomy of Exempt Entities) subject areas for coloring nodes.
+ *
+ * The build adds each organization's NTEE code and major group name from the
+ * IRS EO Business Master File. The 26 major groups (the code's first letter)
+ * are too many to tell apart by color, so nodes are colored by the ten broad
+ * categories the major groups belong to.
+ */
+
+export interface NteeCategory {
+  label: string;
+  groups: string; // NTEE major group letters in this category
+  color: string;
+}
+
+export const NTEE_CATEGORIES: NteeCategory[] = [
+  { label: 'Arts & Culture', groups: 'A', color: '#e15759' },
+  { label: 'Education', groups: 'B', color: '#4e79a7' },
+  { label: 'Environment & Animals', groups: 'CD', color: '#59a14f' },
+  { label: 'Health', groups: 'EFGH', color: '#f28e2b' },
+  { label: 'Human Services', groups: 'IJKLMNOP', color: '#edc948' },
+  { label: 'International', groups: 'Q', color: '#76b7b2' },
+  { label: 'Public & Societal Benefit', groups: 'RSTUVW', color: '#b07aa1' },
+  { label: 'Religion', groups: 'X', color: '#ff9da7' },
+  { label: 'Mutual & Membership Benefit', groups: 'Y', color: '#9c755f' },
+  { label: 'Unknown', groups: 'Z', color: '#bab0ac' }
+];
+
+export const UNCLASSIFIED_COLOR = '#d1d5db';
+
+/**
+ * Broad category of an NTEE code, or null if the organization has none
+ */
+export function nteeCategoryOf(nteeCode?: string): NteeCategory | null {
+  const group = nteeCode?.[0]?.toUpperCase();
+  if (!group) return null;
+  return NTEE_CATEGORIES.find(c => c.groups.includes(group)) || null;
+}
+
+export function nteeColor(nteeCode?: string): string {
+  return nteeCategoryOf(nteeCode)?.color ?? UNCLASSIFIED_COLOR;
+}